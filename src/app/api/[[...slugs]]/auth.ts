@@ -1,4 +1,5 @@
-import { redis } from "@/lib/redis"
+import { roomTokenCookie } from "@/lib/room"
+import { store } from "@/lib/storage"
 import Elysia from "elysia"
 
 class AuthError extends Error { 
@@ -11,41 +12,32 @@ class AuthError extends Error {
 export const authMiddleware = new Elysia({
     name: "auth"})
     .error({AuthError})
-    .onError(({code, set}) => {
+    // Scoped like the derive below - a local handler never sees errors thrown in the routes using it
+    .onError({as: "scoped"}, ({code, status}) => {
         if (code === "AuthError") {
-            set.status = 401
-            return {error: "Unauthorized"}
+            return status(401, {error: "Unauthorized"})
         }
     })
     .derive({as:"scoped"}, async ({query, cookie}) => {
         const roomId = query.roomId
-        const token = cookie["x-auth-token"].value as string | undefined
+        const token = roomId ? cookie[roomTokenCookie(roomId)].value as string | undefined : undefined
 
         if(!roomId || !token) {
             throw new AuthError("Unauthorized")
         }
 
         //Check against metadata of the room - 
-        const connectedRaw = await redis.hget(`meta:${roomId}`, "connected")
-        // Parse connected array - Redis may return it as a JSON string
-        let connected: string[] = []
-        try {
-            if (Array.isArray(connectedRaw)) {
-                connected = connectedRaw
-            } else if (connectedRaw) {
-                // Try to parse as JSON string
-                const parsed = typeof connectedRaw === 'string' 
-                    ? JSON.parse(connectedRaw) 
-                    : connectedRaw
-                connected = Array.isArray(parsed) ? parsed : []
-            }
-        } catch (parseError) {
-            console.error("Error parsing connected array:", parseError)
-            connected = []
+        const meta = await store.getRoomMeta(roomId)
+        if (!meta) {
+            throw new AuthError("Room not found")
         }
 
-        if(!Array.isArray(connected) || !connected.includes(token)){
+        // Membership is only ever granted by the store's atomic join, so this
+        // can't disagree with the capacity check in proxy.ts
+        if(!(await store.isMember(roomId, token))){
             throw new AuthError("Invalid token")
         }
-        return {auth: {roomId, token, connected}}
+        // Rooms created before owners existed have none - anyone in them may still destroy it
+        const isOwner = meta.ownerToken === undefined || meta.ownerToken === token
+        return {auth: {roomId, token, maxParticipants: meta.maxParticipants, isOwner, ownerToken: meta.ownerToken, locked: meta.locked ?? false, allowExport: meta.allowExport ?? true}}
     })
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { roomTokenCookie } from "@/lib/room"
+import { RATE_LIMITS, type RateLimitBudget, type RateLimitedRoute } from "@/lib/room-limits"
+import { store } from "@/lib/storage"
+import Elysia from "elysia"
+
+class RateLimitError extends Error {
+    constructor(public retryAfterSeconds: number) {
+        super("Too many requests")
+        this.name = "RateLimitError"
+    }
+}
+
+// How many proxies in front of the app append to x-forwarded-for - 1 for a single load balancer
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1)
+
+// Each proxy appends the address it received the request from, so only the last
+// TRUSTED_PROXY_HOPS entries are trustworthy - anything to the left of them was sent by the
+// client and is ignored. Without the header every client shares the "unknown" bucket, so
+// deployments must run behind a proxy that sets it.
+const clientIp = (headers: Headers) => {
+    const hops = headers.get("x-forwarded-for")?.split(",").map((hop) => hop.trim()).filter(Boolean) ?? []
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || headers.get("x-real-ip") || "unknown"
+}
+
+// Returns how long to wait in ms, 0 when the request fits every budget that applies to it
+const consume = async (route: RateLimitedRoute, budget: RateLimitBudget, ip: string, token: string | undefined) => {
+    const waits = await Promise.all([
+        budget.perIp ? store.consumeRateLimit(`${route}:ip:${ip}`, budget.perIp, budget.windowMs) : 0,
+        budget.perToken && token ? store.consumeRateLimit(`${route}:token:${token}`, budget.perToken, budget.windowMs) : 0,
+    ])
+    return Math.max(...waits)
+}
+
+// Routes opt in with `{rateLimit: "sendMessage"}` - the budgets live in RATE_LIMITS
+export const rateLimitMiddleware = new Elysia({
+    name: "rate-limit"})
+    .error({RateLimitError})
+    .onError({as: "scoped"}, ({code, error, set, status}) => {
+        if (code === "RateLimitError") {
+            set.headers["retry-after"] = error.retryAfterSeconds.toString()
+            return status(429, {error: "Too many requests", retryAfter: error.retryAfterSeconds})
+        }
+    })
+    .macro({
+        rateLimit: (route: RateLimitedRoute) => ({
+            async beforeHandle({request, query, cookie}) {
+                const roomId = (query as {roomId?: string}).roomId
+                const token = roomId ? cookie[roomTokenCookie(roomId)]?.value as string | undefined : undefined
+
+                const waitMs = await consume(route, RATE_LIMITS[route], clientIp(request.headers), token)
+                if (waitMs > 0) {
+                    throw new RateLimitError(Math.ceil(waitMs / 1000))
+                }
+            },
+        }),
+    })
@@ -1,126 +1,714 @@
-import { redis } from '@/lib/redis'
 import { Elysia } from 'elysia'
 import { nanoid } from 'nanoid'
 import { authMiddleware } from './auth'
+import { rateLimitMiddleware } from './rate-limit'
 import { z} from "zod"
 import { Message, realtime } from '@/lib/realtime'
+import { roomIdFromCookie, roomTokenCookie, roomTokenCookieOptions } from '@/lib/room'
+import { store, type ExtensionProposal, type Invite } from '@/lib/storage'
+import { ATTACHMENT_LIMITS, ATTACHMENT_MIME_TYPES, EXTENSION_PROPOSAL_MS, INVITE_EXPIRY_SECONDS, INVITE_USES, ROOM_EXTENSION_SECONDS, ROOM_MAX_LIFETIME_SECONDS, MESSAGE_EXPIRY_SECONDS, MESSAGE_PAGE_SIZE, PASSPHRASE_LENGTH, REACTION_EMOJIS, ROOM_PARTICIPANTS, ROOM_TTL_SECONDS, TYPING_THROTTLE_MS } from '@/lib/room-limits'
+import { hashPassphrase, verifyPassphrase } from '@/lib/passphrase'
+import { isAdmitted, takeSeat } from '@/lib/admission'
+import { ATTACHMENT_CIPHERTEXT_MAX_LENGTH, ATTACHMENT_NAME_CIPHERTEXT_MAX_LENGTH, CIPHERTEXT_MAX_LENGTH, ciphertextLength, ENCRYPTION_VERSION, NONCE_LENGTH } from '@/lib/crypto'
+import { TRANSCRIPT_FORMATS } from '@/lib/transcript'
 
-const ROOM_TTL_SECONDS = 60 * 10
+const displayName = z.string().trim().min(1).max(100)
 
-const rooms = new Elysia({ prefix: '/room' }).post("/create", async () => {
-    const roomId = nanoid()
-    await redis.hset(`meta:${roomId}`, {
-        connected: JSON.stringify([]), // Store as JSON string for consistency
-        createdAt: Date.now().toString(),
+// Heartbeats come in every HEARTBEAT_INTERVAL_MS, visibility changes can add more
+const PRESENCE_THROTTLE_MS = 2 * 1000
 
-    })
-    //auto deletion part 
-    await redis.expire(`meta:${roomId}`, ROOM_TTL_SECONDS)
+const rooms = new Elysia({ prefix: '/room' }).use(rateLimitMiddleware).post("/create", async ({body, cookie}) => {
+    const {ttlSeconds, maxParticipants, passphrase, allowExport} = body
+    const roomId = nanoid()
+    const passphraseHash = passphrase ? await hashPassphrase(passphrase) : undefined
+    // The creator's browser gets the owner token now - it takes its seat through the proxy
+    // like everyone else when it opens the room
+    const ownerToken = nanoid()
+    await store.createRoom(roomId, {createdAt: Date.now(), ttlSeconds, maxParticipants, passphraseHash, ownerToken, allowExport})
+    cookie[roomTokenCookie(roomId)].set({value: ownerToken, ...roomTokenCookieOptions(ttlSeconds)})
     return {
         roomId,
     }
-}).use(authMiddleware).get("/ttl", async ({auth}) => {
-    const ttl = await redis.ttl(`meta:${auth.roomId}`)
-    return {ttl: ttl > 0 ? ttl : 0}
+}, {
+    body: z.object({
+        ttlSeconds: z.number().int().min(ROOM_TTL_SECONDS.min).max(ROOM_TTL_SECONDS.max).default(ROOM_TTL_SECONDS.default),
+        maxParticipants: z.number().int().min(ROOM_PARTICIPANTS.min).max(ROOM_PARTICIPANTS.max).default(ROOM_PARTICIPANTS.default),
+        // Without one, whoever has the link can take a free seat
+        passphrase: z.string().min(PASSPHRASE_LENGTH.min).max(PASSPHRASE_LENGTH.max).optional(),
+        // The owner can rule out transcripts for everyone in the room
+        allowExport: z.boolean().default(true),
+    }),
+    rateLimit: "createRoom",
+})
+// Takes a seat in a passphrase-protected room - the proxy sends visitors to the join
+// screen instead of handing out a token
+.post("/join", async ({body, cookie, set, status}) => {
+    const {roomId, passphrase, invite} = body
+    const meta = await store.getRoomMeta(roomId)
+    if (!meta) {
+        return status(404, {error: "Room not found"})
+    }
+    if (!meta.passphraseHash) {
+        return status(400, {error: "This room has no passphrase"})
+    }
+
+    const existingToken = cookie[roomTokenCookie(roomId)].value as string | undefined
+    if (existingToken && await store.isKicked(roomId, existingToken)) {
+        return status(403, {error: "You were removed from this room"})
+    }
+    // Like the proxy - only browsers the room already let in can do without an invite
+    const admitted = await isAdmitted(roomId, meta, existingToken)
+    if (!admitted && meta.locked) {
+        return status(423, {error: "Room is locked"})
+    }
+    if (!admitted && !(invite && await store.getInvite(roomId, invite))) {
+        return status(410, {error: "This invite is no longer valid"})
+    }
+
+    const lockedMs = await store.getJoinLockout(roomId)
+    if (lockedMs > 0) {
+        const retryAfter = Math.ceil(lockedMs / 1000)
+        set.headers["retry-after"] = retryAfter.toString()
+        return status(429, {error: "Too many wrong passphrases", retryAfter})
+    }
+
+    if (!(await verifyPassphrase(passphrase, meta.passphraseHash))) {
+        const lockoutMs = await store.recordFailedJoin(roomId)
+        if (lockoutMs > 0) {
+            const retryAfter = Math.ceil(lockoutMs / 1000)
+            set.headers["retry-after"] = retryAfter.toString()
+            return status(429, {error: "Too many wrong passphrases", retryAfter})
+        }
+        return status(403, {error: "Wrong passphrase"})
+    }
+
+    const token = existingToken ?? nanoid()
+    const result = await takeSeat(roomId, token)
+    if (result === "not-found") {
+        return status(404, {error: "Room not found"})
+    }
+    if (result === "full") {
+        return status(409, {error: "Room is full"})
+    }
+    if (!admitted && invite && !(await store.consumeInvite(roomId, invite))) {
+        await store.leaveRoom(roomId, token)
+        return status(410, {error: "This invite is no longer valid"})
+    }
+
+    if (!existingToken) {
+        cookie[roomTokenCookie(roomId)].set({value: token, ...roomTokenCookieOptions(await store.getRoomTtl(roomId))})
+    }
+    return {ok: true}
+}, {
+    body: z.object({
+        roomId: z.string(),
+        passphrase: z.string().min(1).max(PASSPHRASE_LENGTH.max),
+        invite: z.string().optional(),
+    }),
+    rateLimit: "joinRoom",
+})
+.get("/mine", async ({cookie}) => {
+    // Every room this browser holds a token cookie for - rooms that are gone or that
+    // we no longer have a seat in are dropped and their cookies cleared
+    const rooms = await Promise.all(Object.keys(cookie).map(async (name) => {
+        const roomId = roomIdFromCookie(name)
+        const token = cookie[name].value
+        if (!roomId || typeof token !== "string") return null
+
+        const [ttl, member, meta] = await Promise.all([store.getRoomTtl(roomId), store.isMember(roomId, token), store.getRoomMeta(roomId)])
+        // A freshly created room's owner hasn't taken their seat yet
+        if (ttl === 0 || !(member || meta?.ownerToken === token)) {
+            // Path must match the one proxy.ts set or the browser keeps the cookie
+            cookie[name].set({value: "", path: "/", maxAge: 0})
+            return null
+        }
+        return {roomId, ttl}
+    }))
+    return {rooms: rooms.filter((room) => room !== null)}
+})
+.use(authMiddleware).get("/ttl", async ({auth}) => {
+    return {ttl: await store.getRoomTtl(auth.roomId)}
 },
    { query: z.object({ roomId: z.string()})
 })
-.delete("/", async ({auth}) => {
+.get("/info", async ({auth}) => {
+    const owner = auth.ownerToken ? await store.getParticipant(auth.roomId, auth.ownerToken) : null
+    return {
+        participants: await store.countMembers(auth.roomId),
+        maxParticipants: auth.maxParticipants,
+        locked: auth.locked,
+        allowExport: auth.allowExport,
+        isOwner: auth.isOwner,
+        // Null until the owner has registered a name
+        ownerId: owner?.id ?? null,
+    }
+}, {query: z.object({roomId: z.string()})})
+.post("/heartbeat", async ({auth, body, cookie}) => {
+    const status = body?.status ?? "online"
+    // Keeps the seat from going stale and being reclaimed by a newcomer - a goodbye
+    // beacon leaves it to age out instead so a reload can still reclaim it
+    const ok = status === "offline" ? true : await store.touchMember(auth.roomId, auth.token)
+    await store.setPresence(auth.roomId, auth.token, status)
+
+    // The cookie was issued to expire with the room - keep it in step when the room is extended
+    if (ok && status !== "offline") {
+        cookie[roomTokenCookie(auth.roomId)].set({value: auth.token, ...roomTokenCookieOptions(await store.getRoomTtl(auth.roomId))})
+    }
+
+    const participant = await store.getParticipant(auth.roomId, auth.token)
+    // Goodbyes always go out, regular heartbeats are throttled per participant
+    if (participant && (status === "offline" || await store.acquireThrottle(`presence:${auth.roomId}:${auth.token}`, PRESENCE_THROTTLE_MS))) {
+        await realtime.channel(auth.roomId).emit("chat.presence", {id: participant.id, status, lastSeen: Date.now()})
+    }
+    return {ok}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({status: z.enum(["online", "away", "offline"])}).optional(),
+})
+.get("/presence", async ({auth}) => {
+    return {presence: await store.listPresence(auth.roomId)}
+}, {query: z.object({roomId: z.string()})})
+.post("/typing", async ({auth}) => {
+    const participant = await store.getParticipant(auth.roomId, auth.token)
+    if (participant && await store.acquireThrottle(`typing:${auth.roomId}:${auth.token}`, TYPING_THROTTLE_MS)) {
+        await realtime.channel(auth.roomId).emit("chat.typing", {id: participant.id})
+    }
+    return {ok: true}
+}, {query: z.object({roomId: z.string()})})
+.post("/leave", async ({auth}) => {
+    const [participant, wasMember] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.isMember(auth.roomId, auth.token),
+    ])
+    await store.leaveRoom(auth.roomId, auth.token)
+    if (participant && wasMember) {
+        await realtime.channel(auth.roomId).emit("chat.leave", {id: participant.id, reason: "left"})
+    }
+    return {ok: true}
+}, {query: z.object({roomId: z.string()})})
+.get("/participants", async ({auth}) => {
+    const participants = await store.listParticipants(auth.roomId)
+    const me = await store.getParticipant(auth.roomId, auth.token)
+    return {participants, me}
+}, {query: z.object({roomId: z.string()})})
+.post("/identity", async ({auth, body}) => {
+    // Only the first registration for a token counts - renames go through PATCH
+    const existing = await store.getParticipant(auth.roomId, auth.token)
+    const participant = await store.registerParticipant(auth.roomId, auth.token, body.name)
+    if (participant && !existing) {
+        await realtime.channel(auth.roomId).emit("chat.join", participant)
+    }
+    return {participant}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({name: displayName}),
+    rateLimit: "identity",
+})
+.patch("/identity", async ({auth, body, set}) => {
+    const participant = await store.renameParticipant(auth.roomId, auth.token, body.name)
+    if (!participant) {
+        set.status = 404
+        return {error: "Not registered"}
+    }
+    await realtime.channel(auth.roomId).emit("chat.rename", {id: participant.id, name: participant.name})
+    return {participant}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({name: displayName}),
+    rateLimit: "identity",
+})
+// Any participant can invite someone - only the owner sees and revokes what's outstanding
+.post("/invites", async ({auth, body}) => {
+    const [participant, ttl] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.getRoomTtl(auth.roomId),
+    ])
+    const now = Date.now()
+    const invite: Invite = {
+        code: nanoid(16),
+        createdBy: participant?.id ?? null,
+        createdAt: now,
+        expiresAt: now + Math.min(body.expiresIn, ttl) * 1000,
+        maxUses: body.maxUses,
+        uses: 0,
+    }
+    await store.createInvite(auth.roomId, invite)
+    return {invite}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({
+        maxUses: z.number().int().min(INVITE_USES.min).max(INVITE_USES.max).default(INVITE_USES.default),
+        // Cut short to the room's remaining lifetime
+        expiresIn: z.number().int().min(INVITE_EXPIRY_SECONDS.min).max(INVITE_EXPIRY_SECONDS.max).default(INVITE_EXPIRY_SECONDS.default),
+    }),
+    rateLimit: "createInvite",
+})
+.get("/invites", async ({auth, status}) => {
+    if (!auth.isOwner) {
+        return status(403, {error: "Only the room owner can see invites"})
+    }
+    return {invites: await store.listInvites(auth.roomId)}
+}, {query: z.object({roomId: z.string()})})
+.delete("/invites/:code", async ({auth, params, status}) => {
+    if (!auth.isOwner) {
+        return status(403, {error: "Only the room owner can revoke invites"})
+    }
+    if (!(await store.revokeInvite(auth.roomId, params.code))) {
+        return status(404, {error: "Invite not found"})
+    }
+    return {ok: true}
+}, {
+    query: z.object({roomId: z.string()}),
+    params: z.object({code: z.string()}),
+})
+// Extending the room takes two - one participant proposes, anyone else accepts
+.post("/extend", async ({auth, body, status}) => {
+    const [participant, meta, ttl] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.getRoomMeta(auth.roomId),
+        store.getRoomTtl(auth.roomId),
+    ])
+    if (!participant || !meta) {
+        return status(403, {error: "Register a display name before extending the room"})
+    }
+    const maxExpiresAt = meta.createdAt + ROOM_MAX_LIFETIME_SECONDS * 1000
+    if (Date.now() + ttl * 1000 >= maxExpiresAt) {
+        return status(409, {error: "The room can't live any longer"})
+    }
+
+    const proposal: ExtensionProposal = {
+        id: nanoid(),
+        proposerId: participant.id,
+        seconds: body.seconds,
+        expiresAt: Date.now() + Math.min(EXTENSION_PROPOSAL_MS, ttl * 1000),
+    }
+    await store.proposeExtension(auth.roomId, proposal)
+    await realtime.channel(auth.roomId).emit("chat.extend", {...proposal, status: "proposed"})
+    return {proposal}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({
+        seconds: z.number().int().min(ROOM_EXTENSION_SECONDS.min).max(ROOM_EXTENSION_SECONDS.max),
+    }),
+    rateLimit: "proposeExtension",
+})
+.post("/extend/:id/:answer", async ({auth, params, status}) => {
+    const [participant, pending] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.getExtension(auth.roomId, params.id),
+    ])
+    if (!pending) {
+        return status(404, {error: "This request has expired"})
+    }
+    // The proposer withdrawing counts as declining, but they can't agree with themselves
+    if (params.answer === "accept" && (!participant || participant.id === pending.proposerId)) {
+        return status(403, {error: "Someone else has to accept"})
+    }
+
+    // Only the first answer counts
+    const proposal = await store.takeExtension(auth.roomId, params.id)
+    if (!proposal) {
+        return status(404, {error: "This request has expired"})
+    }
+
+    if (params.answer === "decline") {
+        await realtime.channel(auth.roomId).emit("chat.extend", {...proposal, status: "declined"})
+        return {ttl: await store.getRoomTtl(auth.roomId)}
+    }
+
+    const ttl = await store.extendRoom(auth.roomId, proposal.seconds)
+    await realtime.channel(auth.roomId).emit("chat.extend", {...proposal, status: "accepted"})
+    await realtime.channel(auth.roomId).emit("chat.ttl", {expiresAt: Date.now() + ttl * 1000})
+    return {ttl}
+}, {
+    query: z.object({roomId: z.string()}),
+    params: z.object({
+        id: z.string(),
+        answer: z.enum(["accept", "decline"]),
+    }),
+})
+.post("/kick", async ({auth, body, status}) => {
+    if (!auth.isOwner) {
+        return status(403, {error: "Only the room owner can kick participants"})
+    }
+    const me = await store.getParticipant(auth.roomId, auth.token)
+    if (me?.id === body.participantId) {
+        return status(400, {error: "You can't kick yourself"})
+    }
+    if (!(await store.kickParticipant(auth.roomId, body.participantId))) {
+        return status(404, {error: "Participant not found"})
+    }
+    await realtime.channel(auth.roomId).emit("chat.kicked", {id: body.participantId})
+    await realtime.channel(auth.roomId).emit("chat.leave", {id: body.participantId, reason: "kicked"})
+    return {ok: true}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({participantId: z.string()}),
+})
+.post("/lock", async ({auth, body, status}) => {
+    if (!auth.isOwner) {
+        return status(403, {error: "Only the room owner can lock the room"})
+    }
+    await store.setRoomLocked(auth.roomId, body.locked)
+    await realtime.channel(auth.roomId).emit("chat.lock", {locked: body.locked})
+    return {locked: body.locked}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({locked: z.boolean()}),
+})
+// Transcripts are built from what the browser already decrypted, so this can't stop a
+// determined participant - it asks first so the room's choice is honoured and everyone hears
+.post("/export", async ({auth, body, status}) => {
+    if (!auth.allowExport) {
+        return status(403, {error: "Exports are turned off in this room"})
+    }
+    const participant = await store.getParticipant(auth.roomId, auth.token)
+    if (!participant) {
+        return status(403, {error: "Register a display name before exporting"})
+    }
+    await realtime.channel(auth.roomId).emit("chat.exported", {id: participant.id, format: body.format, encrypted: body.encrypted})
+    return {ok: true}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({format: z.enum(TRANSCRIPT_FORMATS), encrypted: z.boolean()}),
+})
+.delete("/", async ({auth, status}) => {
+    if (!auth.isOwner) {
+        return status(403, {error: "Only the room owner can destroy the room"})
+    }
+
     // Emit destroy event first so clients are notified before deletion
     await realtime.channel(auth.roomId).emit("chat.destroy", {isDestroyed: true})
     
-    // Then delete from Redis
-    await Promise.all([
-     redis.del(auth.roomId),
-     redis.del(`meta:${auth.roomId}`),
-     redis.del(`messages:${auth.roomId}`),
-    ])
+    // Then delete everything the room stored
+    await store.destroyRoom(auth.roomId)
 }, {query: z.object({roomId: z.string()})})
 
-const messages = new Elysia({prefix: "/messages"}).use(authMiddleware).post("/", async ({body, auth}) => {
-    const {sender, text} = body
+const encryptedBody = z.object({
+    ciphertext: z.string().max(CIPHERTEXT_MAX_LENGTH),
+    nonce: z.string().length(NONCE_LENGTH),
+    version: z.literal(ENCRYPTION_VERSION),
+})
+
+// Other participants never get to see a message's author token
+const maskToken = (message: Message, token: string): Message => ({
+    ...message,
+    token: message.token === token ? token : undefined,
+})
+
+// Drops messages whose own lifetime ran out and tells every client to remove them
+const pruneExpired = async (roomId: string) => {
+    const ids = await store.takeExpiredMessages(roomId)
+    if (ids.length > 0) {
+        await realtime.channel(roomId).emit("chat.remove", { ids })
+    }
+}
+
+const messages = new Elysia({prefix: "/messages"}).use(authMiddleware).use(rateLimitMiddleware).post("/", async ({body, auth, set}) => {
+    const {ciphertext, nonce, version, expiresIn, burnAfterRead, clientId, attachments, replyTo} = body
     const {roomId} = auth
 
-    const roomExists = await redis.exists(`meta:${roomId}`)
+    const roomExists = (await store.getRoomTtl(roomId)) > 0
     if(!roomExists) {
         throw new Error("Room not found")
     } 
-    const message: Message = {
-        id: nanoid(),
-        sender, 
-        text,
-        timestamp: Date.now(),
-        roomId,
-        token: auth.token,
+
+    // The sender is whoever owns the token - clients can't claim another participant's name
+    const participant = await store.getParticipant(roomId, auth.token)
+    if (!participant) {
+        set.status = 403
+        return {error: "Register a display name before sending messages"}
+    }
+
+    const id = nanoid()
+    // A retry of a send we've already handled - hand back the original instead of a duplicate.
+    // Claims are kept per token, so someone else's clientId never finds their message.
+    const claim = clientId && `${auth.token}:${clientId}`
+    if (claim) {
+        const existingId = await store.claimClientId(roomId, claim, id)
+        if (existingId) {
+            const existing = await store.getMessage(roomId, existingId)
+            if (!existing || existing.token !== auth.token) {
+                set.status = 409
+                return {error: "This message was already sent"}
+            }
+            return { message: maskToken(existing, auth.token) }
+        }
+    }
+    // A refused send gives its clientId back, so a corrected retry can still go through
+    const refuse = async (code: number, error: string) => {
+        if (claim) await store.releaseClientId(roomId, claim)
+        set.status = code
+        return {error}
+    }
+
+    // Only files this token uploaded - size and type are taken from what was stored
+    const stored = await Promise.all((attachments ?? []).map((attachment) => store.getAttachment(roomId, attachment.id)))
+    if (stored.some((attachment) => !attachment || attachment.token !== auth.token)) {
+        return refuse(400, "Attachment not found")
+    }
+    const attached = attachments?.map((attachment, i) => ({...attachment, mimeType: stored[i]!.mimeType, size: stored[i]!.size}))
+
+    if (replyTo && !(await store.getMessage(roomId, replyTo))) {
+        return refuse(400, "The message you replied to is gone")
+    }
+
+    // A file goes out with one message only - otherwise removing one would take it from the rest
+    if (attached?.length && !(await store.bindAttachments(roomId, attached.map((attachment) => attachment.id), id))) {
+        return refuse(409, "This file was already sent")
     }
 
     //Add messages to history 
-    const redisKey = `messages:${roomId}`
-    await redis.rpush(redisKey, JSON.stringify(message))
-    await realtime.channel(roomId).emit("chat.message", message)
+    const message = await store.appendMessage(roomId, {
+        id,
+        sender: participant.name,
+        senderId: participant.id,
+        ciphertext,
+        nonce,
+        version,
+        timestamp: Date.now(),
+        expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
+        burnAfterRead: burnAfterRead || undefined,
+        attachments: attached?.length ? attached : undefined,
+        replyTo,
+        roomId,
+        token: auth.token,
+    }).catch(async (error) => {
+        if (claim) await store.releaseClientId(roomId, claim)
+        throw error
+    })
 
-    const remaining = await redis.ttl(`meta:${roomId}`)
+    // Never broadcast the author's token - it would let the other side act as them
+    await realtime.channel(roomId).emit("chat.message", {...message, token: undefined})
 
-    await Promise.all([
-        redis.expire(`messages:${roomId}`, remaining),
-        redis.expire(`history:${roomId}`, remaining),
-        redis.expire(roomId, remaining)
-    ])
-    
     // Return the created message
     return { message }
 },{
     query: z.object({roomId: z.string()}),
-    body: z.object({
-        sender: z.string().max(100),
-        text: z.string().max(1000),
+    body: encryptedBody.extend({
+        expiresIn: z.number().int().min(MESSAGE_EXPIRY_SECONDS.min).max(MESSAGE_EXPIRY_SECONDS.max).optional(),
+        burnAfterRead: z.boolean().optional(),
+        // Generated by the client once per message and reused on every retry
+        clientId: z.string().min(8).max(64).optional(),
+        attachments: z.array(z.object({
+            id: z.string(),
+            name: z.object({
+                ciphertext: z.string().max(ATTACHMENT_NAME_CIPHERTEXT_MAX_LENGTH),
+                nonce: z.string().length(NONCE_LENGTH),
+            }),
+        })).max(ATTACHMENT_LIMITS.perMessage).optional(),
+        replyTo: z.string().optional(),
     }),
+    rateLimit: "sendMessage",
 }).get("/", async ({ auth, query }) => {
     try {
         const roomId = auth.roomId || query.roomId
-        const redisKey = `messages:${roomId}`
-        const messagesRaw = await redis.lrange(redisKey, 0, -1)
-        
-        // Parse and mask token in each message appropriately
-        const messages = messagesRaw
-            .filter((raw) => raw != null)
-            .map((raw) => {
-                try {
-                    let parsed: Message
-                    
-                    // Handle both string (JSON) and already-parsed object cases
-                    if (typeof raw === 'string') {
-                        parsed = JSON.parse(raw) as Message
-                    } else if (typeof raw === 'object' && raw !== null) {
-                        parsed = raw as Message
-                    } else {
-                        return null
-                    }
-                    
-                    return {
-                        ...parsed,
-                        token: parsed.token === auth.token ? auth.token : undefined,
-                    } as Message
-                } catch (parseError) {
-                    console.error("Error parsing message:", parseError)
-                    return null
-                }
-            })
-            .filter((msg): msg is NonNullable<typeof msg> => msg !== null)
+        await pruneExpired(roomId)
+
+        // Catching up after a reconnect - only what came after the last message the client saw.
+        // reset tells it to reload from scratch when that message is gone or it missed too much.
+        if (query.since) {
+            const gap = await store.listMessagesSince(roomId, query.since, MESSAGE_PAGE_SIZE.max)
+            if (!gap || gap.hasMore) {
+                return { messages: [], nextCursor: null, reset: true }
+            }
+            return { messages: gap.messages.map((message) => maskToken(message, auth.token)), nextCursor: null, reset: false }
+        }
+
+        const page = await store.listMessagePage(roomId, { before: query.before, limit: query.limit ?? MESSAGE_PAGE_SIZE.default })
+        const messages = page.messages.map((message) => maskToken(message, auth.token))
         
-        return { messages }
+        return { messages, nextCursor: page.nextCursor }
     } catch (error) {
         console.error("Error fetching messages:", error)
         throw error
     }
+}, {
+    query: z.object({
+        roomId: z.string(),
+        // Cursor from a previous page's nextCursor - the seq of its oldest message
+        before: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(MESSAGE_PAGE_SIZE.max).optional(),
+        // Id of the newest message the client has - returns everything after it instead of a page
+        since: z.string().optional(),
+    }),
+})
+.get("/read", async ({ auth }) => {
+    return { receipts: await store.listReceipts(auth.roomId) }
 }, { query: z.object({ roomId: z.string() }) })
+.post("/read", async ({ auth, body, set }) => {
+    const [participant, message] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.getMessage(auth.roomId, body.messageId),
+    ])
+    if (!participant || !message) {
+        set.status = 404
+        return { error: "Message not found" }
+    }
+
+    const receipt = await store.advanceReceipt(auth.roomId, participant.id, message, body.state)
+    if (receipt) {
+        await realtime.channel(auth.roomId).emit("chat.read", receipt)
+    }
+    return { ok: true }
+}, {
+    query: z.object({ roomId: z.string() }),
+    body: z.object({
+        messageId: z.string(),
+        state: z.enum(["delivered", "read"]),
+    }),
+})
+.get("/reactions", async ({ auth }) => {
+    return { reactions: await store.listReactions(auth.roomId) }
+}, { query: z.object({ roomId: z.string() }) })
+// Reacting twice with the same emoji changes nothing - reacted: false takes it back
+.post("/:id/reactions", async ({ auth, params, body, set }) => {
+    const [participant, message] = await Promise.all([
+        store.getParticipant(auth.roomId, auth.token),
+        store.getMessage(auth.roomId, params.id),
+    ])
+    if (!message || message.deletedAt) {
+        set.status = 404
+        return { error: "Message not found" }
+    }
+    if (!participant) {
+        set.status = 403
+        return { error: "Register a display name before reacting" }
+    }
+
+    const reaction = { messageId: message.id, emoji: body.emoji, participantId: participant.id }
+    if (await store.setReaction(auth.roomId, reaction, body.reacted)) {
+        await realtime.channel(auth.roomId).emit("chat.reaction", { ...reaction, reacted: body.reacted })
+    }
+    return { ok: true }
+}, {
+    query: z.object({ roomId: z.string() }),
+    params: z.object({ id: z.string() }),
+    body: z.object({
+        emoji: z.enum(REACTION_EMOJIS),
+        reacted: z.boolean(),
+    }),
+    rateLimit: "react",
+})
+// Called by a client whose countdown for a message ran out
+.post("/prune", async ({ auth }) => {
+    await pruneExpired(auth.roomId)
+    return { ok: true }
+}, { query: z.object({ roomId: z.string() }) })
+// Read acknowledgement for a burn-after-read message - the first recipient to read it burns it
+.post("/:id/burn", async ({ auth, params, set }) => {
+    const existing = await store.getMessage(auth.roomId, params.id)
+    if (!existing || !existing.burnAfterRead) {
+        set.status = 404
+        return { error: "Message not found" }
+    }
+    if (existing.token === auth.token) {
+        set.status = 403
+        return { error: "Only a recipient can burn a message" }
+    }
+
+    await store.removeMessages(auth.roomId, [existing.id])
+    await realtime.channel(auth.roomId).emit("chat.remove", { ids: [existing.id] })
+    return { ok: true }
+}, {
+    query: z.object({ roomId: z.string() }),
+    params: z.object({ id: z.string() }),
+})
+.patch("/:id", async ({ auth, params, body, set }) => {
+    const existing = await store.getMessage(auth.roomId, params.id)
+    if (!existing || existing.deletedAt) {
+        set.status = 404
+        return { error: "Message not found" }
+    }
+    // Only the token that authored a message may change it
+    if (existing.token !== auth.token) {
+        set.status = 403
+        return { error: "Not your message" }
+    }
+
+    const message: Message = { ...existing, ...body, editedAt: Date.now() }
+    await store.replaceMessage(auth.roomId, message)
+    await realtime.channel(auth.roomId).emit("chat.edit", { ...message, token: undefined })
+    return { message: maskToken(message, auth.token) }
+}, {
+    query: z.object({ roomId: z.string() }),
+    params: z.object({ id: z.string() }),
+    body: encryptedBody,
+    rateLimit: "changeMessage",
+})
+.delete("/:id", async ({ auth, params, set }) => {
+    const existing = await store.getMessage(auth.roomId, params.id)
+    if (!existing || existing.deletedAt) {
+        set.status = 404
+        return { error: "Message not found" }
+    }
+    if (existing.token !== auth.token) {
+        set.status = 403
+        return { error: "Not your message" }
+    }
+
+    // Leave a tombstone so the other side knows something was removed, without its content
+    const tombstone: Message = { ...existing, ciphertext: "", nonce: "", editedAt: undefined, attachments: undefined, deletedAt: Date.now() }
+    await store.replaceMessage(auth.roomId, tombstone)
+    await store.removeAttachments(auth.roomId, existing.attachments?.map((attachment) => attachment.id) ?? [])
+    await store.removeReactions(auth.roomId, [existing.id])
+    await realtime.channel(auth.roomId).emit("chat.delete", { ...tombstone, token: undefined })
+    return { message: maskToken(tombstone, auth.token) }
+}, {
+    query: z.object({ roomId: z.string() }),
+    params: z.object({ id: z.string() }),
+    rateLimit: "changeMessage",
+})
+
+// Files are uploaded encrypted before the message that carries them is sent, and live in the
+// room until it ends or that message is removed
+const attachments = new Elysia({prefix: "/attachments"}).use(authMiddleware).use(rateLimitMiddleware).post("/", async ({auth, body, status}) => {
+    // The ciphertext is the file plus the GCM tag, so its length gives away a wrong size
+    if (body.ciphertext.length !== ciphertextLength(body.size)) {
+        return status(400, {error: "Attachment size doesn't match its contents"})
+    }
+    if (!(await store.getParticipant(auth.roomId, auth.token))) {
+        return status(403, {error: "Register a display name before uploading files"})
+    }
+
+    const id = nanoid()
+    const stored = await store.putAttachment(auth.roomId, {...body, id, token: auth.token, createdAt: Date.now()})
+    if (!stored) {
+        return status(413, {error: "This room has no space left for attachments"})
+    }
+    return {attachment: {id, mimeType: body.mimeType, size: body.size}}
+}, {
+    query: z.object({roomId: z.string()}),
+    body: z.object({
+        ciphertext: z.string().max(ATTACHMENT_CIPHERTEXT_MAX_LENGTH),
+        nonce: z.string().length(NONCE_LENGTH),
+        version: z.literal(ENCRYPTION_VERSION),
+        mimeType: z.enum(ATTACHMENT_MIME_TYPES),
+        size: z.number().int().positive().max(ATTACHMENT_LIMITS.maxBytes),
+    }),
+    rateLimit: "uploadAttachment",
+})
+.get("/:id", async ({auth, params, status}) => {
+    // Clear out expired messages first so their files go with them
+    await pruneExpired(auth.roomId)
+    const attachment = await store.getAttachment(auth.roomId, params.id)
+    if (!attachment) {
+        return status(404, {error: "Attachment not found"})
+    }
+    const {ciphertext, nonce, version, mimeType, size} = attachment
+    return {ciphertext, nonce, version, mimeType, size}
+}, {
+    query: z.object({roomId: z.string()}),
+    params: z.object({id: z.string()}),
+})
 
-const app = new Elysia({prefix: "/api"}).use(rooms).use(messages)
+const app = new Elysia({prefix: "/api"}).use(rooms).use(messages).use(attachments)
 
 
 
 export const GET = app.fetch 
 export const POST = app.fetch 
 export const DELETE = app.fetch 
+export const PATCH = app.fetch
 
 export type App = typeof app
\ No newline at end of file
@@ -1,4 +1,3 @@
-import { handle } from "@upstash/realtime"
-import { realtime } from "@/lib/realtime"
+import { realtimeHandler } from "@/lib/realtime"
 
-export const GET = handle({ realtime })
\ No newline at end of file
+export const GET = realtimeHandler
@@ -1,9 +1,24 @@
 "use client";
 import { client } from "@/lib/client";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useUsername } from "@/hooks/use-username";
-import { Suspense } from "react";
+import { Suspense, useState } from "react";
+import { buildRoomHash, generateRoomKey } from "@/lib/crypto";
+import { PASSPHRASE_LENGTH, ROOM_PARTICIPANTS, ROOM_TTL_SECONDS } from "@/lib/room-limits";
+import { pruneRoomKeys, recallRoomKey } from "@/lib/room-keys";
+import { pruneOutbox } from "@/lib/outbox";
+import { formatTimeRemaining } from "@/lib/time";
+import Link from "next/link";
+
+const TTL_OPTIONS = [1, 5, 10, 30, 60]
+  .map((minutes) => minutes * 60)
+  .filter((seconds) => seconds >= ROOM_TTL_SECONDS.min && seconds <= ROOM_TTL_SECONDS.max)
+
+const PARTICIPANT_OPTIONS = Array.from(
+  { length: ROOM_PARTICIPANTS.max - ROOM_PARTICIPANTS.min + 1 },
+  (_, i) => ROOM_PARTICIPANTS.min + i,
+)
 
 function HomeContent() {
   const {username} = useUsername()
@@ -11,13 +26,40 @@ function HomeContent() {
   const searchParams = useSearchParams()
   const wasDestroyed = searchParams.get("destroyed") === "true"
   const error = searchParams.get("error")
+  const [ttlSeconds, setTtlSeconds] = useState(ROOM_TTL_SECONDS.default)
+  const [maxParticipants, setMaxParticipants] = useState(ROOM_PARTICIPANTS.default)
+  const [passphrase, setPassphrase] = useState("")
+  const [allowExport, setAllowExport] = useState(true)
+  const passphraseTooShort = passphrase.length > 0 && passphrase.length < PASSPHRASE_LENGTH.min
+  // Seconds the server asked us to wait after creating too many rooms
+  const [retryAfter, setRetryAfter] = useState<number | null>(null)
 
+  const {data: myRooms} = useQuery({
+    queryKey: ["my-rooms"],
+    queryFn: async () => {
+      const res = await client.room.mine.get()
+      const rooms = res.data?.rooms ?? []
+      pruneRoomKeys(rooms.map((room) => room.roomId))
+      pruneOutbox(rooms.map((room) => room.roomId))
+      // Reattach remembered keys so the links open the room already decryptable
+      return rooms.map((room) => {
+        const key = recallRoomKey(room.roomId)
+        return {...room, href: `/room/${room.roomId}${key ? buildRoomHash(key) : ""}`}
+      })
+    },
+    refetchInterval: 10000,
+  })
 
  const {mutate: createRoom} = useMutation({
   mutationFn: async() => {
-    const res = await client.room.create.post()
+    // The key is generated here and only ever lives in the link's #fragment
+    const roomKey = await generateRoomKey()
+    const res = await client.room.create.post({ ttlSeconds, maxParticipants, passphrase: passphrase || undefined, allowExport })
     if (res.status === 200) {
-      router.push(`/room/${res.data?.roomId}`)
+      router.push(`/room/${res.data?.roomId}${buildRoomHash(roomKey)}`)
+    }
+    if (res.status === 429) {
+      setRetryAfter(Number(res.response.headers.get("retry-after")) || 1)
     }
   },
  })
@@ -37,6 +79,26 @@ function HomeContent() {
     <p className="text-red-500 text-sm font-bold">ROOM FULL</p>
     <p className="text-zinc-500 text-xs mt-1">This Room is at Maximum Capacity</p></div>}
 
+    {error === "room-locked" && <div className="bg-red-950/50 border border-red-900 p-4 text-center">
+    <p className="text-red-500 text-sm font-bold">ROOM LOCKED</p>
+    <p className="text-zinc-500 text-xs mt-1">The Owner Isn&apos;t Letting Anyone New In</p></div>}
+
+    {error === "invite-required" && <div className="bg-red-950/50 border border-red-900 p-4 text-center">
+    <p className="text-red-500 text-sm font-bold">INVITE REQUIRED</p>
+    <p className="text-zinc-500 text-xs mt-1">Ask Someone in the Room for an Invite Link</p></div>}
+
+    {error === "invite-invalid" && <div className="bg-red-950/50 border border-red-900 p-4 text-center">
+    <p className="text-red-500 text-sm font-bold">INVITE NOT VALID</p>
+    <p className="text-zinc-500 text-xs mt-1">This Invite Has Expired, Been Used Up or Been Revoked</p></div>}
+
+    {error === "kicked" && <div className="bg-red-950/50 border border-red-900 p-4 text-center">
+    <p className="text-red-500 text-sm font-bold">REMOVED FROM ROOM</p>
+    <p className="text-zinc-500 text-xs mt-1">The Room Owner Removed You</p></div>}
+
+    {retryAfter !== null && <div className="bg-yellow-950/50 border border-yellow-900 p-4 text-center">
+    <p className="text-yellow-500 text-sm font-bold">SLOW DOWN</p>
+    <p className="text-zinc-500 text-xs mt-1">Too Many Rooms Created - Try Again in {retryAfter}s</p></div>}
+
 
 
     <div className="text-center space-y-2">
@@ -57,11 +119,80 @@ function HomeContent() {
           </div>
         </div>
 
-        <button onClick={() => createRoom()} className="w-full bg-zinc-100 text-black p-3 text-sm font-bold hover:bg-zinc-50 hover:text-black transition-colors mt-2 cursor-pointer disabled:opacity-50">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <label htmlFor="ttl" className="flex items-center text-zinc-500">Self-Destruct</label>
+            <select
+              id="ttl"
+              value={ttlSeconds}
+              onChange={(e) => setTtlSeconds(Number(e.target.value))}
+              className="w-full bg-zinc-950 border border-zinc-800 p-3 text-sm text-zinc-400 font-mono focus:outline-none focus:border-zinc-700"
+            >
+              {TTL_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>{seconds / 60} min</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="capacity" className="flex items-center text-zinc-500">Capacity</label>
+            <select
+              id="capacity"
+              value={maxParticipants}
+              onChange={(e) => setMaxParticipants(Number(e.target.value))}
+              className="w-full bg-zinc-950 border border-zinc-800 p-3 text-sm text-zinc-400 font-mono focus:outline-none focus:border-zinc-700"
+            >
+              {PARTICIPANT_OPTIONS.map((count) => (
+                <option key={count} value={count}>{count} people</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="passphrase" className="flex items-center text-zinc-500">Passphrase (optional)</label>
+          <input
+            id="passphrase"
+            type="password"
+            value={passphrase}
+            maxLength={PASSPHRASE_LENGTH.max}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="None - newcomers only need an invite link"
+            className="w-full bg-zinc-950 border border-zinc-800 p-3 text-sm text-zinc-400 font-mono placeholder:text-zinc-700 focus:outline-none focus:border-zinc-700"
+          />
+          {passphraseTooShort && <p className="text-xs text-red-500">At least {PASSPHRASE_LENGTH.min} characters</p>}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-zinc-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allowExport}
+            onChange={(e) => setAllowExport(e.target.checked)}
+            className="accent-green-500"
+          />
+          Allow participants to export a transcript
+        </label>
+
+        <button onClick={() => createRoom()} disabled={passphraseTooShort} className="w-full bg-zinc-100 text-black p-3 text-sm font-bold hover:bg-zinc-50 hover:text-black transition-colors mt-2 cursor-pointer disabled:opacity-50">
           Create Private Room
         </button>
       </div>
       </div>
+
+      {myRooms && myRooms.length > 0 && (
+        <div className="border border-zinc-800 bg-zinc-900/50 p-6 backdrop-blur-md space-y-3">
+          <p className="text-zinc-500">My Rooms</p>
+          <ul className="space-y-2">
+            {myRooms.map((room) => (
+              <li key={room.roomId}>
+                <Link href={room.href} className="flex items-center justify-between bg-zinc-950 border border-zinc-800 hover:border-zinc-700 p-3 text-sm font-mono transition-colors">
+                  <span className="text-green-500 truncate">{room.roomId}</span>
+                  <span className={room.ttl < 60 ? "text-red-500" : "text-amber-500"}>{formatTimeRemaining(room.ttl)}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       </div>
     </main>
   );
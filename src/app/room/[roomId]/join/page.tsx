@@ -0,0 +1,95 @@
+"use client"
+
+import { useMutation } from "@tanstack/react-query"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
+import { useState } from "react"
+import { client } from "@/lib/client"
+import { PASSPHRASE_LENGTH } from "@/lib/room-limits"
+
+// Passphrase screen for protected rooms - the proxy sends visitors here instead of handing
+// out a seat. The room key stays in the #fragment, which the redirect here preserved.
+const Page = () => {
+    const params = useParams()
+    const roomId = params.roomId as string
+    const router = useRouter()
+    // Passed along by the proxy - the invite is only used up once the passphrase is right
+    const invite = useSearchParams().get("invite") ?? undefined
+    const [passphrase, setPassphrase] = useState("")
+    const [error, setError] = useState<string | null>(null)
+
+    const { mutate: join, isPending } = useMutation({
+        mutationFn: async () => {
+            const res = await client.room.join.post({ roomId, passphrase, invite })
+            if (res.status === 200) {
+                router.replace(`/room/${roomId}${window.location.hash}`)
+                return
+            }
+            if (res.status === 429) {
+                const retryAfter = Number(res.response.headers.get("retry-after")) || 1
+                setError(`Too many wrong passphrases - try again in ${Math.ceil(retryAfter / 60)} min`)
+            } else if (res.status === 403) {
+                // Wrong passphrase, or this browser was kicked from the room
+                setError(res.error?.value && "error" in res.error.value ? String(res.error.value.error) : "Wrong passphrase")
+            } else if (res.status === 410) {
+                router.push("/?error=invite-invalid")
+            } else if (res.status === 423) {
+                router.push("/?error=room-locked")
+            } else if (res.status === 404) {
+                router.push("/?error=room-not-found")
+            } else if (res.status === 409) {
+                router.push("/?error=room-full")
+            } else {
+                setError("Could not join the room")
+            }
+            setPassphrase("")
+        },
+    })
+
+    return (
+        <main className="flex min-h-screen flex-col items-center justify-center p-4">
+            <div className="w-full max-w-md space-y-8">
+                <div className="text-center space-y-2">
+                    <h1 className="text-2xl font-bold tracking-tight text-green-500">
+                        Private_Chat
+                    </h1>
+                    <p className="text-zinc-500 text-sm">This room is protected by a passphrase.</p>
+                </div>
+
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault()
+                        if (passphrase && !isPending) join()
+                    }}
+                    className="border border-zinc-800 bg-zinc-900/50 p-6 backdrop-blur-md space-y-5"
+                >
+                    <div className="space-y-2">
+                        <label htmlFor="passphrase" className="flex items-center text-zinc-500">Passphrase</label>
+                        <input
+                            id="passphrase"
+                            type="password"
+                            autoFocus
+                            value={passphrase}
+                            maxLength={PASSPHRASE_LENGTH.max}
+                            onChange={(e) => {
+                                setPassphrase(e.target.value)
+                                setError(null)
+                            }}
+                            className="w-full bg-zinc-950 border border-zinc-800 p-3 text-sm text-zinc-400 font-mono focus:outline-none focus:border-zinc-700"
+                        />
+                        {error && <p className="text-xs text-red-500">{error}</p>}
+                    </div>
+
+                    <button
+                        type="submit"
+                        disabled={!passphrase || isPending}
+                        className="w-full bg-zinc-100 text-black p-3 text-sm font-bold hover:bg-zinc-50 hover:text-black transition-colors cursor-pointer disabled:opacity-50"
+                    >
+                        {isPending ? "Checking..." : "Join Room"}
+                    </button>
+                </form>
+            </div>
+        </main>
+    )
+}
+
+export default Page
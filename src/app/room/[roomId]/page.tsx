@@ -1,143 +1,532 @@
 "use client"
 
 import { useUsername } from "@/hooks/use-username"
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query"
 import { useParams, useRouter } from "next/navigation"
-import { useRef, useState, useEffect } from "react"
+import { useRef, useState, useEffect, useLayoutEffect, useMemo } from "react"
 import { client } from "@/lib/client"
-import { format } from "date-fns"
 import { useRealtime } from "@/lib/realtime-client"
-import type { Message } from "@/lib/realtime"
+import type { Message, Participant } from "@/lib/realtime"
+import { useRoomKey } from "@/hooks/use-room-key"
+import { formatTimeRemaining } from "@/lib/time"
+import { ATTACHMENT_LIMITS, ATTACHMENT_MIME_TYPES, BURN_VIEW_SECONDS, HEARTBEAT_INTERVAL_MS, INVITE_EXPIRY_SECONDS, INVITE_USES, ROOM_EXTENSION_SECONDS } from "@/lib/room-limits"
+import { usePresence } from "@/hooks/use-presence"
+import { useTyping } from "@/hooks/use-typing"
+import { useRoomExpiry } from "@/hooks/use-room-expiry"
+import { useReceipts } from "@/hooks/use-receipts"
+import { useReactions } from "@/hooks/use-reactions"
+import { useVisibility } from "@/hooks/use-visibility"
+import { useOutbox } from "@/hooks/use-outbox"
+import { RosterPanel } from "@/components/roster-panel"
+import { InvitePanel, inviteLink } from "@/components/invite-panel"
+import { ExportPanel } from "@/components/export-panel"
+import { MessageBubble } from "@/components/message-bubble"
+import { AttachmentList } from "@/components/attachment-list"
+import { ReactionBar } from "@/components/reaction-bar"
+import { ReplyPreview } from "@/components/reply-preview"
+import { attachmentError, uploadAttachment } from "@/lib/attachments"
+import { participantColors } from "@/lib/participant-colors"
+import { forgetRoomKey } from "@/lib/room-keys"
+import { decryptMessage, encryptText, MESSAGE_MAX_LENGTH, type DecryptedMessage } from "@/lib/crypto"
 
-function formatTimeRemaining(seconds: number) {
-    const mins = Math.floor(seconds / 60)
-    const secs = seconds % 60
-    return `${mins}:${secs.toString().padStart(2, "0")}`
-}
+const MESSAGE_EXPIRY_OPTIONS = [30, 60, 5 * 60]
+
+type MessagePage = { messages: DecryptedMessage[], nextCursor: number | null }
+
+// A join or leave line in the message list. It sits after the newest message there was when
+// it arrived - seqs come from the server, so a skewed local clock can't misplace it.
+type RoomNotice = { id: number, text: string, afterSeq: number }
+
+const LEAVE_NOTICES = {
+    left: "left the room",
+    kicked: "was removed by the owner",
+    timeout: "lost their seat after going quiet",
+} as const
 
 const Page = () => {
     const params = useParams()
     const roomId = params.roomId as string
     const router = useRouter()
     const {username} = useUsername()
+    const roomKey = useRoomKey(roomId)
 
     const [input, setInput] = useState("")
-    const inputRef = useRef<HTMLInputElement>(null)
+    const [burnAfterRead, setBurnAfterRead] = useState(false)
+    const [expiresIn, setExpiresIn] = useState<number | null>(null)
+    const inputRef = useRef<HTMLTextAreaElement>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    // Picked for the next message - uploaded when it is sent
+    const [files, setFiles] = useState<File[]>([])
+    const [fileError, setFileError] = useState<string | null>(null)
+    const [isUploading, setIsUploading] = useState(false)
+    const [replyingTo, setReplyingTo] = useState<DecryptedMessage | null>(null)
+    // The original a reply's preview was clicked for, marked for a moment
+    const [highlightedId, setHighlightedId] = useState<string | null>(null)
     const messagesEndRef = useRef<HTMLDivElement>(null)
-    const [copyStatus, setCopyStatus] = useState("COPY")
+    const [copyStatus, setCopyStatus] = useState("INVITE")
+    const [showInvites, setShowInvites] = useState(false)
+    const [showExport, setShowExport] = useState(false)
+    const [showRoster, setShowRoster] = useState(false)
+    // Only what happened while this page was open - notices aren't stored anywhere
+    const [notices, setNotices] = useState<RoomNotice[]>([])
+    // Who last exported the transcript, shown for a few seconds
+    const [exportedBy, setExportedBy] = useState<string | null>(null)
     
-    const {data: ttlData} = useQuery({
-        queryKey:["ttl", roomId], 
+    const {data: roomInfo} = useQuery({
+        queryKey: ["room-info", roomId],
         queryFn: async () => {
-            const res = await client.room.ttl.get({query: {roomId}})
+            const res = await client.room.info.get({query: {roomId}})
             return res.data
         },
+        refetchInterval: HEARTBEAT_INTERVAL_MS,
+    })
+
+    const queryClient = useQueryClient()
+
+    const {data: participantsData, refetch: refetchParticipants} = useQuery({
+        queryKey: ["participants", roomId],
+        queryFn: async () => {
+            const res = await client.room.participants.get({query: {roomId}})
+            return res.data ?? {participants: [] as Participant[], me: null}
+        },
     })
+    const me = participantsData?.me ?? null
 
-    // Initialize timeRemaining from ttlData using lazy initializer
-    const [timeRemaining, setTimeRemaining] = useState<number | null>(() => {
-        return ttlData?.ttl !== undefined ? (ttlData.ttl > 0 ? ttlData.ttl : 0) : null
+    // Bind our display name to our token once - the server stamps it on every message we send
+    const {mutate: registerIdentity} = useMutation({
+        mutationFn: async ({ name }: { name: string }) => {
+            await client.room.identity.post({ name }, { query: { roomId } })
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["participants", roomId] })
+        },
     })
 
-    // Sync timeRemaining when ttlData updates
-    // This is necessary to sync external query data to state for countdown timer
     useEffect(() => {
-        if (ttlData?.ttl !== undefined) {
-            const newTtl = ttlData.ttl > 0 ? ttlData.ttl : 0
-            // Only update if it's significantly different to avoid resetting countdown
-            setTimeRemaining((prev) => {
-                if (prev === null || Math.abs(prev - newTtl) > 5) {
-                    return newTtl
-                }
-                return prev
-            })
+        if (username) {
+            registerIdentity({ name: username })
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [ttlData?.ttl])
+    }, [username, registerIdentity])
 
-    const queryClient = useQueryClient()
+    const [renaming, setRenaming] = useState(false)
+    const [nameInput, setNameInput] = useState("")
+
+    const {mutate: rename} = useMutation({
+        mutationFn: async ({ name }: { name: string }) => {
+            await client.room.identity.patch({ name }, { query: { roomId } })
+        },
+        onSuccess: () => {
+            setRenaming(false)
+        },
+    })
+
+    // Current names by participant id - messages keep the name they were sent with as a fallback
+    const names = new Map((participantsData?.participants ?? []).map((participant) => [participant.id, participant.name]))
+    const colorOf = participantColors(participantsData?.participants ?? [])
+
+    const canSend = roomKey.status === "ready" && me !== null
 
-    const { data: messages, error: messagesError, isLoading, refetch } = useQuery({
+    const statuses = usePresence(roomId)
+    const { typingIds, notifyTyping } = useTyping(roomId, me?.id ?? null)
+    const { expiresAt, timeRemaining, myProposal, theirProposal, propose: proposeExtension, answer: answerExtension } = useRoomExpiry(roomId, me?.id ?? null)
+    const typingNames = typingIds.map((id) => names.get(id)).filter(Boolean)
+
+    const {
+        data: messagePages,
+        error: messagesError,
+        isLoading,
+        refetch,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery({
         queryKey: ["messages", roomId],
-        queryFn: async () => {
-            const res = await client.messages.get({ query: { roomId } })
+        queryFn: async ({ pageParam }): Promise<MessagePage> => {
+            const res = await client.messages.get({ query: { roomId, before: pageParam ?? undefined } })
             const data = res.data
-            if (data && typeof data === "object" && "messages" in data) {
-                return data as { messages: Message[] }
-            } else if (Array.isArray(data)) {
-                return { messages: data as Message[] }
-            }
-            return data || { messages: [] }
+            // Decrypt in the browser - messages that fail carry text: null and render an error state
+            const messages = await Promise.all(((data?.messages ?? []) as Message[]).map((msg) => decryptMessage(roomKey.key, msg, roomId)))
+            return { messages, nextCursor: data?.nextCursor ?? null }
         },
+        // Pages run newest first - each one's cursor points at the history before it
+        initialPageParam: null as number | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        // Wait until the fragment has been read so we don't decrypt with no key by accident
+        enabled: roomKey.status !== "loading",
+    })
+
+    const messages = useMemo(
+        () => (messagePages?.pages ?? []).toReversed().flatMap((page) => page.messages),
+        [messagePages],
+    )
+
+    // Applies a change to every cached page without refetching
+    const updateCachedMessages = (update: (messages: DecryptedMessage[]) => DecryptedMessage[]) => {
+        queryClient.setQueryData(["messages", roomId], (prev: InfiniteData<MessagePage, number | null> | undefined) => prev && {
+            ...prev,
+            pages: prev.pages.map((page) => ({ ...page, messages: update(page.messages) })),
+        })
+    }
+
+    // Merges new messages into the newest page, skipping any we already have
+    const addToCache = (incoming: DecryptedMessage[]) => {
+        queryClient.setQueryData(["messages", roomId], (prev: InfiniteData<MessagePage, number | null> | undefined) => {
+            if (!prev || prev.pages.length === 0) return prev
+            const known = new Set(prev.pages.flatMap((page) => page.messages.map((message) => message.id)))
+            const fresh = incoming.filter((message) => !known.has(message.id) && known.add(message.id))
+            if (fresh.length === 0) return prev
+
+            const [newest, ...older] = prev.pages
+            // Decryption is async, so messages can land out of order - seq is the source of truth
+            const merged = [...newest.messages, ...fresh].sort((a, b) => a.seq - b.seq)
+            return { ...prev, pages: [{ ...newest, messages: merged }, ...older] }
+        })
+    }
+
+    // Our own message comes straight back - the realtime echo is de-duplicated by id
+    const { outgoing, send, retry, discard, slowDownSeconds, slowDown } = useOutbox(roomId, roomKey.key, async (message) => {
+        addToCache([await decryptMessage(roomKey.key, message, roomId)])
     })
 
+    const pickFiles = (picked: File[]) => {
+        const error = picked.map(attachmentError).find(Boolean)
+            ?? (files.length + picked.length > ATTACHMENT_LIMITS.perMessage ? `Up to ${ATTACHMENT_LIMITS.perMessage} files per message` : null)
+        setFileError(error)
+        if (!error) setFiles((prev) => [...prev, ...picked])
+    }
+
+    // Files go up first - the message is only queued once they are stored, so a retry from the
+    // outbox never has to upload anything again
+    const sendMessage = async (text: string) => {
+        let attachments
+        if (files.length > 0 && roomKey.key) {
+            setIsUploading(true)
+            try {
+                attachments = await Promise.all(files.map((file) => uploadAttachment(roomKey.key!, roomId, file)))
+            } catch (error) {
+                setFileError(error instanceof Error ? error.message : "Could not upload the files")
+                return
+            } finally {
+                setIsUploading(false)
+            }
+        }
+        send(text, { expiresIn: expiresIn ?? undefined, burnAfterRead: burnAfterRead || undefined, attachments, replyTo: replyingTo?.id })
+        setReplyingTo(null)
+        setInput("")
+        setFiles([])
+        setFileError(null)
+        inputRef.current?.focus()
+    }
+    const hasContent = input.trim() !== "" || files.length > 0
+
+    // Loading older history grows the list above the viewport - remember our distance
+    // from the bottom so the visible messages don't jump
+    const scrollRef = useRef<HTMLDivElement>(null)
+    const restoreScrollRef = useRef<number | null>(null)
+
+    const loadOlder = () => {
+        const el = scrollRef.current
+        if (!el || !hasNextPage || isFetchingNextPage) return
+        restoreScrollRef.current = el.scrollHeight - el.scrollTop
+        fetchNextPage()
+    }
+
+    const pageCount = messagePages?.pages.length ?? 0
+    useLayoutEffect(() => {
+        const el = scrollRef.current
+        if (el && restoreScrollRef.current !== null && !isFetchingNextPage) {
+            el.scrollTop = el.scrollHeight - restoreScrollRef.current
+            restoreScrollRef.current = null
+        }
+    }, [pageCount, isFetchingNextPage])
+
+    // Only follow the conversation when a newer message arrives, not when history loads
+    const newestId = outgoing.at(-1)?.entry.clientId ?? messages.at(-1)?.id
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
-    }, [messages])
+    }, [newestId])
 
-    // Countdown timer
+    // The room is gone once the countdown runs out - and so is any reason to keep its key
     useEffect(() => {
-        if (timeRemaining === null || timeRemaining <= 0) {
-            if (timeRemaining === 0) {
-                router.push("/?destroyed=true")
-            }
-            return
+        if (timeRemaining === 0) {
+            forgetRoomKey(roomId)
+            router.push("/?destroyed=true")
         }
+    }, [timeRemaining, roomId, router])
 
-        const interval = setInterval(() => {
-            setTimeRemaining((prev) => {
-                if (prev === null || prev <= 1) {
-                    return 0
-                }
-                return prev - 1
-            })
-        }, 1000)
-
-        return () => clearInterval(interval)
-    }, [timeRemaining, router])
+    // Swap an edited or unsent message into the cached list without refetching everything
+    const replaceInCache = async (message: Message) => {
+        const decrypted = await decryptMessage(roomKey.key, message, roomId)
+        updateCachedMessages((messages) => messages.map((existing) => existing.id === decrypted.id ? decrypted : existing))
+    }
 
-    const { mutate: sendMessage, isPending } = useMutation({
-        mutationFn: async ({ text }: { text: string }) => {
-            return await client.messages.post({ sender: username, text }, { query: { roomId } })
+    const { mutate: editMessage } = useMutation({
+        mutationFn: async ({ id, text }: { id: string, text: string }) => {
+            if (!roomKey.key) {
+                throw new Error("Missing room key")
+            }
+            const encrypted = await encryptText(roomKey.key, text, roomId)
+            const res = await client.messages({ id }).patch(encrypted, { query: { roomId } })
+            if (res.status === 429) {
+                slowDown(Number(res.response.headers.get("retry-after")) || 1)
+            }
+            if (res.data && "message" in res.data && res.data.message) {
+                await replaceInCache(res.data.message)
+            }
         },
-        onSuccess: () => {
-            setInput("")
-            setTimeout(() => {
-                queryClient.invalidateQueries({ queryKey: ["messages", roomId] })
-                queryClient.refetchQueries({ queryKey: ["messages", roomId] })
-            }, 100)
-            setInput("")
+        onError: (error) => {
+            console.error("Failed to edit message:", error)
+        },
+    })
+
+    const { mutate: unsendMessage } = useMutation({
+        mutationFn: async ({ id }: { id: string }) => {
+            const res = await client.messages({ id }).delete({}, { query: { roomId } })
+            if (res.status === 429) {
+                slowDown(Number(res.response.headers.get("retry-after")) || 1)
+            }
+            if (res.data && "message" in res.data && res.data.message) {
+                await replaceInCache(res.data.message)
+            }
         },
         onError: (error) => {
-            console.error("Failed to send message:", error)
-        }
+            console.error("Failed to unsend message:", error)
+        },
     })
 
-    useRealtime({
+    const deliveryStateOf = useReceipts(roomId, messages, me?.id ?? null)
+    const { countsFor, toggle: toggleReaction } = useReactions(roomId, me?.id ?? null)
+
+    // What a reply's preview shows - null when the original isn't loaded any more
+    const quote = (id: string) => {
+        const original = messages.find((msg) => msg.id === id)
+        return original ? { sender: names.get(original.senderId) ?? original.sender, text: original.text, deletedAt: original.deletedAt } : null
+    }
+
+    const jumpTo = (id: string) => {
+        document.getElementById(`message-${id}`)?.scrollIntoView({ behavior: "smooth", block: "center" })
+        setHighlightedId(id)
+        setTimeout(() => setHighlightedId((current) => current === id ? null : current), 1500)
+    }
+    const visible = useVisibility()
+
+    // Burn-after-read messages we've acknowledged - we keep showing them for
+    // BURN_VIEW_SECONDS even though the server has already removed them
+    const burnedByMeRef = useRef(new Set<string>())
+
+    const removeFromCache = (ids: string[]) => {
+        updateCachedMessages((messages) => messages.filter((message) => !ids.includes(message.id)))
+    }
+
+    // Acknowledge burn-after-read messages once they are on a visible screen. The first reader
+    // burns the message for the whole room, so in a group nobody else gets to see it.
+    useEffect(() => {
+        if (!me || !visible) return
+        for (const msg of messages) {
+            if (!msg.burnAfterRead || msg.senderId === me.id || msg.text === null || burnedByMeRef.current.has(msg.id)) continue
+
+            burnedByMeRef.current.add(msg.id)
+            client.messages({ id: msg.id }).burn.post(null, { query: { roomId } }).catch((error) => {
+                // Try again the next time the list renders
+                burnedByMeRef.current.delete(msg.id)
+                console.error("Failed to burn message:", error)
+            })
+            const viewUntil = Date.now() + BURN_VIEW_SECONDS * 1000
+            updateCachedMessages((messages) => messages.map((existing) => existing.id === msg.id ? { ...existing, expiresAt: viewUntil } : existing))
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [messages, me, visible, roomId])
+
+    // Drop messages when their own lifetime runs out and have the server prune them too
+    useEffect(() => {
+        const expiries = messages.flatMap((msg) => msg.expiresAt ? [msg.expiresAt] : [])
+        if (expiries.length === 0) return
+
+        const timeout = setTimeout(() => {
+            const now = Date.now()
+            removeFromCache(messages.filter((msg) => msg.expiresAt && msg.expiresAt <= now).map((msg) => msg.id))
+            client.messages.prune.post(null, { query: { roomId } }).catch((error) => {
+                console.error("Failed to prune expired messages:", error)
+            })
+        }, Math.max(0, Math.min(...expiries) - Date.now()))
+
+        return () => clearTimeout(timeout)
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [messages, roomId])
+
+    const addNotice = (text: string) => {
+        setNotices((prev) => [...prev, { id: (prev.at(-1)?.id ?? 0) + 1, text, afterSeq: messages.at(-1)?.seq ?? 0 }])
+    }
+
+    // Notices between a message and the next one - index -1 for those before the first
+    const noticesAfter = (index: number) => {
+        const from = messages[index]?.seq ?? -1
+        const to = messages[index + 1]?.seq ?? Infinity
+        return notices
+            .filter((notice) => notice.afterSeq >= from && notice.afterSeq < to)
+            .map((notice) => (
+                <p key={`notice-${notice.id}`} className="text-center text-[10px] text-zinc-500 font-mono">
+                    — {notice.text} —
+                </p>
+            ))
+    }
+
+    const { status: realtimeStatus } = useRealtime({
         channels: [roomId],
-        events: ["chat.message", "chat.destroy"],
-        onData: ({ event }) => {
+        events: ["chat.message", "chat.edit", "chat.delete", "chat.remove", "chat.destroy", "chat.rename", "chat.presence", "chat.kicked", "chat.lock", "chat.exported", "chat.join", "chat.leave"],
+        onData: ({ event, data }) => {
             if (event === "chat.message") {
-                refetch();
+                decryptMessage(roomKey.key, data, roomId).then((message) => addToCache([message]))
+                // First message from someone we haven't seen yet
+                if (!names.has(data.senderId)) {
+                    refetchParticipants()
+                }
+            }
+
+            if (event === "chat.edit" || event === "chat.delete") {
+                replaceInCache(data)
+            }
+
+            if (event === "chat.remove") {
+                removeFromCache(data.ids.filter((id) => !burnedByMeRef.current.has(id)))
+            }
+
+            // Someone new came online - pick up their registered name
+            if (event === "chat.presence" && !names.has(data.id)) {
+                refetchParticipants()
+            }
+
+            if (event === "chat.rename") {
+                queryClient.setQueryData(["participants", roomId], (prev: typeof participantsData) => prev && {
+                    ...prev,
+                    participants: prev.participants.map((participant) =>
+                        participant.id === data.id ? { ...participant, name: data.name } : participant),
+                    me: prev.me?.id === data.id ? { ...prev.me, name: data.name } : prev.me,
+                })
+            }
+
+            if (event === "chat.join") {
+                queryClient.setQueryData(["participants", roomId], (prev: typeof participantsData) => prev && {
+                    ...prev,
+                    participants: [...prev.participants.filter((participant) => participant.id !== data.id), data],
+                })
+                addNotice(`${data.name} joined the room`)
+            }
+
+            if (event === "chat.leave") {
+                addNotice(`${names.get(data.id) ?? "Someone"} ${LEAVE_NOTICES[data.reason]}`)
+                queryClient.invalidateQueries({ queryKey: ["room-info", roomId] })
             }
 
             if (event === "chat.destroy") {
+                forgetRoomKey(roomId)
                 router.push("/?destroyed=true");
             }
+
+            if (event === "chat.kicked") {
+                if (data.id === me?.id) {
+                    forgetRoomKey(roomId)
+                    router.push("/?error=kicked")
+                } else {
+                    queryClient.invalidateQueries({ queryKey: ["room-info", roomId] })
+                }
+            }
+
+            if (event === "chat.lock") {
+                queryClient.setQueryData(["room-info", roomId], (prev: typeof roomInfo) => prev && { ...prev, locked: data.locked })
+            }
+
+            if (event === "chat.exported" && data.id !== me?.id) {
+                setExportedBy(names.get(data.id) ?? "Someone")
+            }
         },
     });
 
+    // Events sent while the connection was down are lost - once it comes back, fetch
+    // whatever arrived after the newest message we have instead of the whole history
+    const wasConnectedRef = useRef(false)
+    const lastSeenIdRef = useRef<string | undefined>(undefined)
+    useEffect(() => {
+        lastSeenIdRef.current = messages.at(-1)?.id
+    }, [messages])
+
+    useEffect(() => {
+        if (realtimeStatus !== "connected") return
+        if (!wasConnectedRef.current) {
+            wasConnectedRef.current = true
+            return
+        }
+
+        // An extension may have happened while we were away, and reactions kept coming
+        queryClient.invalidateQueries({ queryKey: ["ttl", roomId] })
+        queryClient.invalidateQueries({ queryKey: ["reactions", roomId] })
+
+        const since = lastSeenIdRef.current
+        if (!since) {
+            refetch()
+            return
+        }
+        const catchUp = async () => {
+            const res = await client.messages.get({ query: { roomId, since } })
+            const data = res.data
+            if (!data || ("reset" in data && data.reset)) {
+                refetch()
+                return
+            }
+            addToCache(await Promise.all((data.messages as Message[]).map((msg) => decryptMessage(roomKey.key, msg, roomId))))
+        }
+        catchUp()
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [realtimeStatus])
+
+    useEffect(() => {
+        if (!exportedBy) return
+        const timeout = setTimeout(() => setExportedBy(null), 5000)
+        return () => clearTimeout(timeout)
+    }, [exportedBy])
+
+    const {mutate: leaveRoom} = useMutation({
+        mutationFn: async() => {
+            await client.room.leave.post(null, {query: {roomId}})
+        },
+        onSuccess: () => {
+            router.push("/")
+        },
+    })
+
     const {mutate: destroyRoom} = useMutation({
         mutationFn: async() => {
             await client.room.delete(null, {query: {roomId}})
         },
     })
 
-    const copyLink = () => {
-        const url = window.location.href
-        navigator.clipboard.writeText(url)
-        setCopyStatus("COPIED!")
-        setTimeout(() => setCopyStatus("COPY"), 2000)
+    // Owner only - the server refuses everyone else, these buttons are only shown to the owner
+    const {mutate: kick} = useMutation({
+        mutationFn: async (participant: Participant) => {
+            await client.room.kick.post({ participantId: participant.id }, { query: { roomId } })
+        },
+    })
+
+    const {mutate: setLocked, isPending: isLocking} = useMutation({
+        mutationFn: async (locked: boolean) => {
+            await client.room.lock.post({ locked }, { query: { roomId } })
+        },
+    })
+
+    // The room address alone no longer lets anyone in - copy a single-use invite instead
+    const copyLink = async () => {
+        const res = await client.room.invites.post(
+            { maxUses: INVITE_USES.default, expiresIn: INVITE_EXPIRY_SECONDS.default },
+            { query: { roomId } },
+        )
+        if (!res.data || !("invite" in res.data)) {
+            setCopyStatus("FAILED")
+        } else {
+            navigator.clipboard.writeText(inviteLink(roomId, res.data.invite.code))
+            setCopyStatus("COPIED!")
+            queryClient.invalidateQueries({ queryKey: ["invites", roomId] })
+        }
+        setTimeout(() => setCopyStatus("INVITE"), 2000)
     }
 
     return (
@@ -159,16 +548,158 @@ const Page = () => {
                         <span className="text-xs text-zinc-500 uppercase">Self-Destruct</span>
                         <span className={`text-sm font-bold flex items-center gap-2 ${timeRemaining !== null && timeRemaining < 60 ? "text-red-500" : "text-amber-500"}`}>
                             {timeRemaining !== null ? formatTimeRemaining(timeRemaining) : "--:--"}
+                            {myProposal ? (
+                                <span className="text-[10px] text-zinc-500 font-normal">waiting for someone to accept…</span>
+                            ) : (
+                                <button
+                                    onClick={() => proposeExtension(ROOM_EXTENSION_SECONDS.default)}
+                                    disabled={!me}
+                                    title="Ask the others for more time"
+                                    className="text-[10px] bg-zinc-800 hover:bg-zinc-700 px-2 py-0.5 rounded text-zinc-400 hover:text-zinc-200 transition-colors disabled:opacity-50"
+                                >
+                                    +{ROOM_EXTENSION_SECONDS.default / 60} MIN
+                                </button>
+                            )}
                         </span>
                     </div>
+
+                    <div className="h-8 w-px bg-zinc-800" />
+                    <div className="flex flex-col">
+                        <span className="text-xs text-zinc-500 uppercase">Identity</span>
+                        {renaming ? (
+                            <input
+                                autoFocus
+                                value={nameInput}
+                                maxLength={100}
+                                onChange={(e) => setNameInput(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter" && nameInput.trim()) {
+                                        rename({ name: nameInput.trim() })
+                                    }
+                                    if (e.key === "Escape") {
+                                        setRenaming(false)
+                                    }
+                                }}
+                                onBlur={() => setRenaming(false)}
+                                className="bg-black border border-zinc-800 focus:border-zinc-700 focus:outline-none text-sm text-zinc-100 px-1"
+                            />
+                        ) : (
+                            <button
+                                onClick={() => {
+                                    setNameInput(me?.name ?? "")
+                                    setRenaming(true)
+                                }}
+                                disabled={!me}
+                                className={`text-sm font-bold ${colorOf(me?.id ?? "").text} hover:opacity-80 text-left transition-opacity`}
+                            >
+                                {me?.name ?? "..."}
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="h-8 w-px bg-zinc-800" />
+                    <div className="flex flex-col">
+                        <span className="text-xs text-zinc-500 uppercase">Capacity</span>
+                        <span className="text-sm font-bold text-zinc-300">
+                            {roomInfo ? `${roomInfo.participants}/${roomInfo.maxParticipants}` : "-/-"}
+                        </span>
+                    </div>
+
+                    <div className="h-8 w-px bg-zinc-800" />
+                    <div className="flex flex-col">
+                        <span className="text-xs text-zinc-500 uppercase">Present</span>
+                        <button onClick={() => setShowRoster((prev) => !prev)} className="text-sm font-bold text-zinc-300 hover:text-zinc-100 text-left transition-colors">
+                            {(participantsData?.participants ?? []).filter((participant) => statuses.get(participant.id) === "online").length} online {showRoster ? "▴" : "▾"}
+                        </button>
+                    </div>
                 </div>
 
-                <button onClick={() => destroyRoom()} className="text-xs bg-zinc-800 hover:bg-red-600 px-3 py-1.5 rounded text-zinc-400 hover:text-white font-bold transition-all group flex items-center gap-2 disabled:opacity-50">
-                    <span className="group-hover:animate-pulse">💥</span>DESTROY ROOM
+                <div className="flex items-center gap-2">
+                {roomInfo?.allowExport && (
+                    <button onClick={() => setShowExport((prev) => !prev)} className="text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-all">
+                        EXPORT
+                    </button>
+                )}
+                <button onClick={() => leaveRoom()} className="text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-all">
+                    LEAVE
                 </button>
+                {roomInfo?.isOwner && (
+                    <>
+                    <button onClick={() => setShowInvites((prev) => !prev)} className="text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-all">
+                        INVITES
+                    </button>
+                    <button onClick={() => setLocked(!roomInfo.locked)} disabled={isLocking} className="text-xs bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-all disabled:opacity-50">
+                        {roomInfo.locked ? "🔒 UNLOCK" : "🔓 LOCK"}
+                    </button>
+                    <button onClick={() => destroyRoom()} className="text-xs bg-zinc-800 hover:bg-red-600 px-3 py-1.5 rounded text-zinc-400 hover:text-white font-bold transition-all group flex items-center gap-2 disabled:opacity-50">
+                        <span className="group-hover:animate-pulse">💥</span>DESTROY ROOM
+                    </button>
+                    </>
+                )}
+                {roomInfo && !roomInfo.isOwner && roomInfo.locked && (
+                    <span className="text-xs text-zinc-500 font-bold">🔒 LOCKED</span>
+                )}
+                </div>
             </header>
 
-            <div className="flex-1 overflow-y-auto p-4 scrollbar-thin">
+            {showRoster && (
+                <RosterPanel
+                    participants={participantsData?.participants ?? []}
+                    statuses={statuses}
+                    colorOf={colorOf}
+                    myId={me?.id ?? null}
+                    ownerId={roomInfo?.ownerId}
+                    onKick={roomInfo?.isOwner ? (participant) => kick(participant) : undefined}
+                />
+            )}
+
+            {roomInfo?.isOwner && showInvites && <InvitePanel roomId={roomId} />}
+
+            {roomInfo?.allowExport && showExport && (
+                <ExportPanel
+                    roomId={roomId}
+                    messages={messages}
+                    room={{ expiresAt, participants: (participantsData?.participants ?? []).map((participant) => participant.name) }}
+                    senderName={(msg) => names.get(msg.senderId) ?? msg.sender}
+                />
+            )}
+
+            {exportedBy && (
+                <div className="bg-zinc-900/50 border-b border-zinc-800 px-4 py-2 text-center">
+                    <p className="text-zinc-400 text-xs font-bold">{exportedBy} exported a transcript of this room</p>
+                </div>
+            )}
+
+            {theirProposal && (
+                <div className="bg-amber-950/50 border-b border-amber-900 px-4 py-2 flex items-center justify-center gap-4 text-xs">
+                    <p className="text-amber-500 font-bold">
+                        {names.get(theirProposal.proposerId) ?? "Someone"} wants to keep the room {theirProposal.seconds / 60} more minutes
+                    </p>
+                    <button onClick={() => answerExtension(theirProposal.id, "accept")} className="bg-zinc-800 hover:bg-green-700 px-2 py-0.5 rounded text-zinc-300 font-bold transition-colors">
+                        ACCEPT
+                    </button>
+                    <button onClick={() => answerExtension(theirProposal.id, "decline")} className="bg-zinc-800 hover:bg-zinc-700 px-2 py-0.5 rounded text-zinc-400 font-bold transition-colors">
+                        DECLINE
+                    </button>
+                </div>
+            )}
+
+            {(roomKey.status === "missing" || roomKey.status === "invalid") && (
+                <div className="bg-red-950/50 border-b border-red-900 px-4 py-2 text-center">
+                    <p className="text-red-500 text-xs font-bold">
+                        {roomKey.status === "missing" ? "MISSING ENCRYPTION KEY" : "INVALID ENCRYPTION KEY"}
+                    </p>
+                    <p className="text-zinc-500 text-xs mt-1">Open the full room link (including everything after the #) to read and send messages.</p>
+                </div>
+            )}
+
+            <div
+                ref={scrollRef}
+                onScroll={(e) => {
+                    if (e.currentTarget.scrollTop < 80) loadOlder()
+                }}
+                className="flex-1 overflow-y-auto p-4 scrollbar-thin"
+            >
                 {isLoading ? (
                     <div className="flex items-center justify-center h-full min-h-[400px]">
                         <p className="text-zinc-600 text-sm font-mono">Loading messages...</p>
@@ -179,27 +710,64 @@ const Page = () => {
                     </div>
                 ) : (
                     <div className="flex flex-col h-full">
-                        {messages?.messages && messages.messages.length > 0 ? (
+                        {messages.length > 0 || outgoing.length > 0 || notices.length > 0 ? (
                             <div className="space-y-4">
-                                {messages.messages.map((msg: Message) => (
-                                    <div key={msg.id} className="flex flex-col items-start">
-                                        <div className="max-w-[80%]">
-                                            <div className="flex items-baseline gap-3 mb-1">
-                                                <span className={`text-sm font-bold ${msg.sender === username ? "text-green-500" : "text-blue-500"}`}>
-                                                    {msg.sender === username ? "You" : msg.sender}
-                                                </span>
-                                                <span className="text-[10px] text-zinc-600">
-                                                    {msg.timestamp 
-                                                        ? format(new Date(typeof msg.timestamp === "number" ? msg.timestamp : parseInt(msg.timestamp)), "HH:mm")
-                                                        : ""}
-                                                </span>
-                                            </div>
-                                            <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-2">
-                                                {/* Ensure we always have string for text */}
-                                                <span className="text-zinc-100 text-sm leading-relaxed break-all">{String(msg.text)}</span>
-                                            </div>
-                                        </div>
-                                    </div>
+                                <p className="text-center text-[10px] text-zinc-600 font-mono">
+                                    {isFetchingNextPage ? "Loading older messages..." : hasNextPage ? "" : "Beginning of conversation"}
+                                </p>
+                                {noticesAfter(-1)}
+                                {messages.map((msg: DecryptedMessage, index) => [
+                                    <MessageBubble
+                                        key={msg.id}
+                                        msg={msg}
+                                        isMine={me !== null && msg.senderId === me.id}
+                                        senderName={names.get(msg.senderId) ?? msg.sender}
+                                        senderColor={colorOf(msg.senderId).text}
+                                        deliveryState={deliveryStateOf(msg)}
+                                        attachments={msg.attachments && <AttachmentList roomId={roomId} roomKey={roomKey.key} attachments={msg.attachments} />}
+                                        replyPreview={msg.replyTo && (
+                                            <ReplyPreview original={quote(msg.replyTo)} onClick={quote(msg.replyTo) ? () => jumpTo(msg.replyTo!) : undefined} />
+                                        )}
+                                        reactions={(
+                                            <ReactionBar
+                                                counts={countsFor(msg.id)}
+                                                onToggle={me ? (emoji, reacted) => toggleReaction(msg.id, emoji, reacted) : undefined}
+                                            />
+                                        )}
+                                        highlighted={highlightedId === msg.id}
+                                        onReply={canSend ? () => {
+                                            setReplyingTo(msg)
+                                            inputRef.current?.focus()
+                                        } : undefined}
+                                        onEdit={(text) => editMessage({ id: msg.id, text })}
+                                        onUnsend={() => unsendMessage({ id: msg.id })}
+                                    />,
+                                    ...noticesAfter(index),
+                                ])}
+                                {outgoing.map(({ entry, text, state }) => (
+                                    <MessageBubble
+                                        key={entry.clientId}
+                                        msg={{
+                                            ...entry,
+                                            id: entry.clientId,
+                                            sender: me?.name ?? "",
+                                            senderId: me?.id ?? "",
+                                            timestamp: entry.createdAt,
+                                            seq: 0,
+                                            text,
+                                            attachments: undefined,
+                                        }}
+                                        isMine
+                                        senderName={me?.name ?? ""}
+                                        senderColor={colorOf(me?.id ?? "").text}
+                                        deliveryState={state}
+                                        attachments={entry.attachments && (
+                                            <span className="text-[10px] text-zinc-600 font-mono mt-2 block">📎 {entry.attachments.length} attached</span>
+                                        )}
+                                        replyPreview={entry.replyTo && <ReplyPreview original={quote(entry.replyTo)} />}
+                                        onRetry={() => retry(entry.clientId)}
+                                        onDiscard={() => discard(entry.clientId)}
+                                    />
                                 ))}
                                 <div ref={messagesEndRef} />
                             </div>
@@ -213,42 +781,108 @@ const Page = () => {
             </div>
 
             <div className="p-4 border-t border-zinc-800 bg-zinc-900/30">
+                {slowDownSeconds > 0 ? (
+                    <p className="text-xs text-yellow-500 font-mono h-4 mb-2">
+                        Slow down - sending again in {slowDownSeconds}s
+                    </p>
+                ) : (
+                    <p className="text-xs text-zinc-500 font-mono h-4 mb-2">
+                        {typingNames.length > 0 ? `${typingNames.join(", ")} ${typingNames.length === 1 ? "is" : "are"} typing…` : ""}
+                    </p>
+                )}
+                {replyingTo && (
+                    <ReplyPreview original={quote(replyingTo.id) ?? replyingTo} onClick={() => jumpTo(replyingTo.id)} onDismiss={() => setReplyingTo(null)} />
+                )}
                 <div className="flex gap-4">
                     <div className="flex-1 relative group">
-                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-green-500 animate-pulse">{">"}</span>
-                        <input
+                        <span className="absolute left-4 top-3 text-green-500 animate-pulse">{">"}</span>
+                        <textarea
                             autoFocus
                             ref={inputRef}
-                            type="text"
                             value={input}
+                            rows={Math.min(6, input.split("\n").length)}
+                            maxLength={MESSAGE_MAX_LENGTH}
+                            disabled={!canSend}
                             onKeyDown={(e) => {
-                                if (
-                                    e.key === "Enter" &&
-                                    input.trim() &&
-                                    !isPending
-                                ) {
-                                    sendMessage({ text: input })
-                                    inputRef.current?.focus()
+                                if (e.key === "Escape") setReplyingTo(null)
+                                // Enter sends, Shift+Enter starts a new line - but not while an IME is composing
+                                if (e.key !== "Enter" || e.shiftKey || e.nativeEvent.isComposing) return
+                                e.preventDefault()
+                                if (hasContent && canSend && !isUploading) {
+                                    sendMessage(input)
                                 }
                             }}
-                            placeholder="Type message . . . "
-                            onChange={(e) => setInput(e.target.value)}
-                            className="w-full bg-black border border-zinc-800 focus:border-zinc-700 focus:outline-none transition-colors text-zinc-100 placeholder:text-zinc-700 py-3 pl-8 pr-4 text-sm"
+                            placeholder="Type message . . . (Shift+Enter for a new line)"
+                            onChange={(e) => {
+                                setInput(e.target.value)
+                                if (e.target.value) notifyTyping()
+                            }}
+                            className="block w-full resize-none bg-black border border-zinc-800 focus:border-zinc-700 focus:outline-none transition-colors text-zinc-100 placeholder:text-zinc-700 py-3 pl-8 pr-4 text-sm disabled:opacity-50"
                         />
+                        {input.length > MESSAGE_MAX_LENGTH * 0.8 && (
+                            <span className={`absolute right-3 bottom-1 text-[10px] font-mono ${input.length >= MESSAGE_MAX_LENGTH ? "text-red-500" : "text-zinc-600"}`}>
+                                {input.length}/{MESSAGE_MAX_LENGTH}
+                            </span>
+                        )}
                     </div>
                     <button
                         onClick={() => {
-                            if(input.trim() && !isPending) {
-                                sendMessage({ text: input })
-                                inputRef.current?.focus()
+                            if(hasContent && canSend && !isUploading) {
+                                sendMessage(input)
                             }
                         }}
-                        disabled={!input.trim() || isPending}
+                        disabled={!hasContent || !canSend || isUploading}
                         className="bg-zinc-800 text-zinc-400 px-6 text-sm font-bold hover:text-zinc-200 transition-all disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                     >
-                        SEND
+                        {isUploading ? "UPLOADING..." : "SEND"}
                     </button>
                 </div>
+                {(files.length > 0 || fileError) && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs font-mono">
+                        {files.map((file, i) => (
+                            <span key={`${file.name}-${i}`} className="flex items-center gap-1 bg-zinc-800 text-zinc-400 px-2 py-0.5 rounded">
+                                📎 {file.name}
+                                <button onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))} className="text-zinc-500 hover:text-red-500 transition-colors">
+                                    ✕
+                                </button>
+                            </span>
+                        ))}
+                        {fileError && <span className="text-red-500">{fileError}</span>}
+                    </div>
+                )}
+                <div className="flex items-center gap-4 mt-2 text-xs text-zinc-500">
+                    <button onClick={() => fileInputRef.current?.click()} disabled={!canSend || isUploading} className="hover:text-zinc-200 transition-colors disabled:opacity-50">
+                        📎 Attach
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        multiple
+                        accept={ATTACHMENT_MIME_TYPES.join(",")}
+                        onChange={(e) => {
+                            pickFiles([...(e.target.files ?? [])])
+                            e.target.value = ""
+                        }}
+                        className="hidden"
+                    />
+                    <label className="flex items-center gap-1.5 cursor-pointer" title="Only the first person to read it gets to see it - in a group, everyone else misses it">
+                        <input type="checkbox" checked={burnAfterRead} onChange={(e) => setBurnAfterRead(e.target.checked)} className="accent-red-500" />
+                        Burn after first read
+                    </label>
+                    <label className="flex items-center gap-1.5">
+                        Expires
+                        <select
+                            value={expiresIn ?? ""}
+                            onChange={(e) => setExpiresIn(e.target.value ? Number(e.target.value) : null)}
+                            className="bg-black border border-zinc-800 focus:outline-none text-zinc-400 px-1"
+                        >
+                            <option value="">never</option>
+                            {MESSAGE_EXPIRY_OPTIONS.map((seconds) => (
+                                <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds}s` : `${seconds / 60}m`}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
             </div>
         </main>
     )
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query"
+import { decryptAttachmentName, fetchAttachment, formatBytes } from "@/lib/attachments"
+import type { Attachment } from "@/lib/realtime"
+
+const toDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+})
+
+// Files are fetched and decrypted only once their message is on screen. They are small
+// enough to keep as data: URLs, which go away with the query cache.
+const AttachmentItem = ({ roomId, roomKey, attachment }: { roomId: string, roomKey: CryptoKey, attachment: Attachment }) => {
+    const { data, isLoading } = useQuery({
+        queryKey: ["attachment", roomId, attachment.id],
+        queryFn: async () => {
+            const blob = await fetchAttachment(roomKey, roomId, attachment)
+            return {
+                name: await decryptAttachmentName(roomKey, attachment, roomId),
+                url: blob ? await toDataUrl(blob) : null,
+            }
+        },
+        staleTime: Infinity,
+    })
+
+    const name = data?.name ?? "attachment"
+    const url = data?.url
+    if (isLoading) {
+        return <span className="text-[10px] text-zinc-600 font-mono">Decrypting {formatBytes(attachment.size)}…</span>
+    }
+    if (!url) {
+        return <span className="text-[10px] text-red-400 font-mono">Attachment unavailable</span>
+    }
+
+    return (
+        <a href={url} download={name} className="flex flex-col gap-1 text-xs text-zinc-400 hover:text-zinc-200 transition-colors">
+            {attachment.mimeType.startsWith("image/") && (
+                // eslint-disable-next-line @next/next/no-img-element -- a decrypted data: URL, nothing for next/image to optimise
+                <img src={url} alt={name} className="max-h-48 max-w-xs rounded border border-zinc-700 object-contain" />
+            )}
+            <span className="font-mono">📎 {name} · {formatBytes(attachment.size)}</span>
+        </a>
+    )
+}
+
+export const AttachmentList = ({ roomId, roomKey, attachments }: { roomId: string, roomKey: CryptoKey | null, attachments: Attachment[] }) => {
+    if (!roomKey) return null
+    return (
+        <div className="flex flex-col gap-2 mt-2">
+            {attachments.map((attachment) => (
+                <AttachmentItem key={attachment.id} roomId={roomId} roomKey={roomKey} attachment={attachment} />
+            ))}
+        </div>
+    )
+}
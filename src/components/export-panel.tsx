@@ -0,0 +1,93 @@
+import { useMutation } from "@tanstack/react-query"
+import { useState } from "react"
+import { client } from "@/lib/client"
+import { encryptWithPassphrase, type DecryptedMessage } from "@/lib/crypto"
+import { buildTranscript, transcriptFilename, TRANSCRIPT_FORMATS, type TranscriptFormat, type TranscriptRoom } from "@/lib/transcript"
+
+const FORMAT_LABELS: Record<TranscriptFormat, string> = {
+    md: "Markdown",
+    json: "JSON",
+    txt: "Plain text",
+}
+
+const download = (contents: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+// Saves the messages loaded so far - scroll up first to include older history
+export const ExportPanel = ({ roomId, messages, room, senderName }: {
+    roomId: string
+    messages: DecryptedMessage[]
+    room: Omit<TranscriptRoom, "roomId" | "exportedAt">
+    senderName: (message: DecryptedMessage) => string
+}) => {
+    const [transcriptFormat, setTranscriptFormat] = useState<TranscriptFormat>("md")
+    const [passphrase, setPassphrase] = useState("")
+    const [error, setError] = useState<string | null>(null)
+
+    const { mutate: exportTranscript, isPending } = useMutation({
+        mutationFn: async () => {
+            const encrypted = passphrase.length > 0
+            // The server has the final say on whether this room allows exports, and tells the others
+            const res = await client.room.export.post({ format: transcriptFormat, encrypted }, { query: { roomId } })
+            if (res.status !== 200) {
+                setError(res.error?.value && "error" in res.error.value ? String(res.error.value.error) : "Could not export")
+                return
+            }
+
+            const transcriptRoom = { ...room, roomId, exportedAt: Date.now() }
+            const transcript = buildTranscript(transcriptFormat, transcriptRoom, messages, senderName)
+            const filename = transcriptFilename(transcriptRoom, transcriptFormat, encrypted)
+            if (encrypted) {
+                download(JSON.stringify(await encryptWithPassphrase(transcript, passphrase)), filename, "application/json")
+            } else {
+                download(transcript, filename, transcriptFormat === "json" ? "application/json" : "text/plain")
+            }
+            setPassphrase("")
+        },
+    })
+
+    return (
+        <div className="border-b border-zinc-800 bg-zinc-900/30 px-4 py-3 space-y-2 text-xs">
+            <div className="flex items-center gap-3 text-zinc-500">
+                <span className="uppercase">Export</span>
+                <select
+                    value={transcriptFormat}
+                    onChange={(e) => setTranscriptFormat(e.target.value as TranscriptFormat)}
+                    className="bg-black border border-zinc-800 focus:outline-none text-zinc-400 px-1"
+                >
+                    {TRANSCRIPT_FORMATS.map((value) => (
+                        <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+                    ))}
+                </select>
+                <input
+                    type="password"
+                    value={passphrase}
+                    placeholder="passphrase (optional)"
+                    onChange={(e) => {
+                        setPassphrase(e.target.value)
+                        setError(null)
+                    }}
+                    className="bg-black border border-zinc-800 focus:outline-none text-zinc-400 px-1 placeholder:text-zinc-700"
+                />
+                <button
+                    onClick={() => exportTranscript()}
+                    disabled={isPending}
+                    className="bg-zinc-800 hover:bg-zinc-700 px-2 py-0.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-colors disabled:opacity-50"
+                >
+                    {isPending ? "EXPORTING..." : "DOWNLOAD"}
+                </button>
+            </div>
+            <p className="text-zinc-600">
+                {messages.length} loaded messages. Everyone in the room is told when you export.
+                {passphrase ? " The file is encrypted with your passphrase." : " Without a passphrase the file is plain text."}
+            </p>
+            {error && <p className="text-red-500">{error}</p>}
+        </div>
+    )
+}
@@ -0,0 +1,113 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useState } from "react"
+import { client } from "@/lib/client"
+import { INVITE_EXPIRY_SECONDS, INVITE_USES } from "@/lib/room-limits"
+import { formatTimeRemaining } from "@/lib/time"
+import { useNow } from "@/hooks/use-now"
+
+const EXPIRY_OPTIONS = [10, 30, 60]
+    .map((minutes) => minutes * 60)
+    .filter((seconds) => seconds >= INVITE_EXPIRY_SECONDS.min && seconds <= INVITE_EXPIRY_SECONDS.max)
+
+const USES_OPTIONS = Array.from({ length: INVITE_USES.max - INVITE_USES.min + 1 }, (_, i) => INVITE_USES.min + i)
+
+// The link a newcomer opens - the room key travels along in the #fragment as usual
+export const inviteLink = (roomId: string, code: string) => {
+    return `${window.location.origin}/room/${roomId}?invite=${encodeURIComponent(code)}${window.location.hash}`
+}
+
+// Owner-only list of outstanding invites, with a form to mint new ones and revoke old ones
+export const InvitePanel = ({ roomId }: { roomId: string }) => {
+    const queryClient = useQueryClient()
+    const [maxUses, setMaxUses] = useState(INVITE_USES.default)
+    const [expiresIn, setExpiresIn] = useState(INVITE_EXPIRY_SECONDS.default)
+    const [copied, setCopied] = useState<string | null>(null)
+    const now = useNow(1000)
+
+    const { data: invites } = useQuery({
+        queryKey: ["invites", roomId],
+        queryFn: async () => {
+            const res = await client.room.invites.get({ query: { roomId } })
+            return res.data && "invites" in res.data ? res.data.invites : []
+        },
+        refetchInterval: 10000,
+    })
+
+    const copy = (code: string) => {
+        navigator.clipboard.writeText(inviteLink(roomId, code))
+        setCopied(code)
+        setTimeout(() => setCopied(null), 2000)
+    }
+
+    const { mutate: mint, isPending: isMinting } = useMutation({
+        mutationFn: async () => {
+            const res = await client.room.invites.post({ maxUses, expiresIn }, { query: { roomId } })
+            if (res.data && "invite" in res.data) {
+                copy(res.data.invite.code)
+            }
+        },
+        onSettled: () => queryClient.invalidateQueries({ queryKey: ["invites", roomId] }),
+    })
+
+    const { mutate: revoke } = useMutation({
+        mutationFn: async (code: string) => {
+            await client.room.invites({ code }).delete({}, { query: { roomId } })
+        },
+        onSettled: () => queryClient.invalidateQueries({ queryKey: ["invites", roomId] }),
+    })
+
+    const outstanding = (invites ?? []).filter((invite) => invite.expiresAt > now)
+
+    return (
+        <div className="border-b border-zinc-800 bg-zinc-900/30 px-4 py-3 space-y-3 text-xs">
+            <div className="flex items-center gap-3 text-zinc-500">
+                <span className="uppercase">New invite</span>
+                <select
+                    value={maxUses}
+                    onChange={(e) => setMaxUses(Number(e.target.value))}
+                    className="bg-black border border-zinc-800 focus:outline-none text-zinc-400 px-1"
+                >
+                    {USES_OPTIONS.map((uses) => (
+                        <option key={uses} value={uses}>{uses === 1 ? "single use" : `${uses} uses`}</option>
+                    ))}
+                </select>
+                <select
+                    value={expiresIn}
+                    onChange={(e) => setExpiresIn(Number(e.target.value))}
+                    className="bg-black border border-zinc-800 focus:outline-none text-zinc-400 px-1"
+                >
+                    {EXPIRY_OPTIONS.map((seconds) => (
+                        <option key={seconds} value={seconds}>expires in {seconds / 60} min</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => mint()}
+                    disabled={isMinting}
+                    className="bg-zinc-800 hover:bg-zinc-700 px-2 py-0.5 rounded text-zinc-400 hover:text-zinc-200 font-bold transition-colors disabled:opacity-50"
+                >
+                    CREATE & COPY
+                </button>
+            </div>
+
+            {outstanding.length === 0 ? (
+                <p className="text-zinc-600">No outstanding invites</p>
+            ) : (
+                <ul className="space-y-1">
+                    {outstanding.map((invite) => (
+                        <li key={invite.code} className="flex items-center gap-3 font-mono text-zinc-400">
+                            <span className="text-green-500">{invite.code.slice(0, 6)}…</span>
+                            <span>{invite.uses}/{invite.maxUses} used</span>
+                            <span className="text-amber-500">{formatTimeRemaining(Math.max(0, Math.floor((invite.expiresAt - now) / 1000)))}</span>
+                            <button onClick={() => copy(invite.code)} className="text-zinc-500 hover:text-zinc-200 transition-colors">
+                                {copied === invite.code ? "COPIED!" : "COPY"}
+                            </button>
+                            <button onClick={() => revoke(invite.code)} className="text-zinc-500 hover:text-red-500 transition-colors">
+                                REVOKE
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,150 @@
+import { useState, type ReactNode } from "react"
+import { format } from "date-fns"
+import { MESSAGE_MAX_LENGTH, type DecryptedMessage } from "@/lib/crypto"
+import { useNow } from "@/hooks/use-now"
+import { RichText } from "./rich-text"
+import { formatTimeRemaining } from "@/lib/time"
+import type { DeliveryState } from "@/hooks/use-receipts"
+import type { OutgoingState } from "@/hooks/use-outbox"
+
+const DELIVERY_LABELS: Record<DeliveryState | OutgoingState, { mark: string, className: string }> = {
+    pending: { mark: "◷", className: "text-zinc-600" },
+    failed: { mark: "!", className: "text-red-500 font-bold" },
+    sent: { mark: "✓", className: "text-zinc-600" },
+    delivered: { mark: "✓✓", className: "text-zinc-500" },
+    read: { mark: "✓✓", className: "text-green-500" },
+}
+
+// Messages still in the outbox pass onRetry/onDiscard instead of onEdit/onUnsend
+export const MessageBubble = ({msg, isMine, senderName, senderColor, deliveryState, attachments, replyPreview, reactions, highlighted, onReply, onEdit, onUnsend, onRetry, onDiscard}: {
+    msg: DecryptedMessage
+    isMine: boolean
+    senderName: string
+    // Text class from participantColors - the same in every browser
+    senderColor: string
+    deliveryState: DeliveryState | OutgoingState
+    // Rendered under the text - see AttachmentList
+    attachments?: ReactNode
+    // Above the bubble for replies, and the ReactionBar below it
+    replyPreview?: ReactNode
+    reactions?: ReactNode
+    // Briefly marks the message someone jumped to from a reply
+    highlighted?: boolean
+    onReply?: () => void
+    onEdit?: (text: string) => void
+    onUnsend?: () => void
+    onRetry?: () => void
+    onDiscard?: () => void
+}) => {
+    const [editing, setEditing] = useState(false)
+    const [draft, setDraft] = useState("")
+    const now = useNow(1000, Boolean(msg.expiresAt))
+
+    const isDeleted = Boolean(msg.deletedAt)
+    // Only readable messages can be edited - we'd otherwise overwrite text we never saw
+    const canModify = isMine && !isDeleted && msg.text !== null && Boolean(onEdit && onUnsend)
+
+    const saveEdit = () => {
+        const text = draft.trim()
+        if (text && text !== msg.text) {
+            onEdit?.(text)
+        }
+        setEditing(false)
+    }
+
+    return (
+        <div id={`message-${msg.id}`} className={`flex flex-col items-start rounded transition-colors ${highlighted ? "bg-zinc-800/60" : ""}`}>
+            <div className="max-w-[80%] group">
+                <div className="flex items-baseline gap-3 mb-1">
+                    <span className={`text-sm font-bold ${senderColor}`}>
+                        {isMine ? "You" : senderName}
+                    </span>
+                    <span className="text-[10px] text-zinc-600">
+                        {msg.timestamp ? format(new Date(msg.timestamp), "HH:mm") : ""}
+                    </span>
+                    {isMine && !isDeleted && (
+                        <span className={`text-[10px] ${DELIVERY_LABELS[deliveryState].className}`} title={deliveryState}>
+                            {DELIVERY_LABELS[deliveryState].mark}
+                        </span>
+                    )}
+                    {msg.expiresAt ? (
+                        <span className="text-[10px] text-red-500 font-bold">
+                            🔥 {formatTimeRemaining(Math.max(0, Math.ceil((msg.expiresAt - now) / 1000)))}
+                        </span>
+                    ) : msg.burnAfterRead && (
+                        <span className="text-[10px] text-red-500 font-bold" title="The first person to read it burns it for everyone">🔥 burns on first read</span>
+                    )}
+                    {msg.editedAt && !isDeleted && (
+                        <span className="text-[10px] text-zinc-600" title={format(new Date(msg.editedAt), "HH:mm:ss")}>edited</span>
+                    )}
+                    {deliveryState === "failed" && (
+                        <span className="flex items-center gap-2">
+                            <span className="text-[10px] text-red-500">not sent</span>
+                            <button onClick={onRetry} className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">
+                                RETRY
+                            </button>
+                            <button onClick={onDiscard} className="text-[10px] text-zinc-500 hover:text-red-500 transition-colors">
+                                DISCARD
+                            </button>
+                        </span>
+                    )}
+                    {onReply && !isDeleted && !editing && (
+                        <button onClick={onReply} className="hidden group-hover:block text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors">
+                            REPLY
+                        </button>
+                    )}
+                    {canModify && !editing && (
+                        <span className="hidden group-hover:flex items-center gap-2">
+                            <button
+                                onClick={() => {
+                                    setDraft(msg.text ?? "")
+                                    setEditing(true)
+                                }}
+                                className="text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors"
+                            >
+                                EDIT
+                            </button>
+                            <button onClick={onUnsend} className="text-[10px] text-zinc-500 hover:text-red-500 transition-colors">
+                                UNSEND
+                            </button>
+                        </span>
+                    )}
+                </div>
+                {replyPreview}
+                {isDeleted ? (
+                    <div className="border border-dashed border-zinc-800 rounded-lg px-4 py-2">
+                        <span className="text-zinc-600 text-xs font-mono italic">This message was unsent</span>
+                    </div>
+                ) : msg.text === null ? (
+                    <div className="bg-red-950/30 border border-red-900 rounded-lg px-4 py-2">
+                        <span className="text-red-400 text-xs font-mono">Unable to decrypt this message</span>
+                    </div>
+                ) : editing ? (
+                    <textarea
+                        autoFocus
+                        value={draft}
+                        rows={Math.min(8, draft.split("\n").length)}
+                        maxLength={MESSAGE_MAX_LENGTH}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                            // Same keys as the composer - Shift+Enter for a new line
+                            if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+                                e.preventDefault()
+                                saveEdit()
+                            }
+                            if (e.key === "Escape") setEditing(false)
+                        }}
+                        onBlur={() => setEditing(false)}
+                        className="w-full bg-black border border-zinc-700 focus:outline-none rounded-lg px-4 py-2 text-zinc-100 text-sm resize-none font-sans"
+                    />
+                ) : msg.text !== "" && (
+                    <div className="bg-zinc-800/50 border border-zinc-700 rounded-lg px-4 py-2">
+                        <RichText text={msg.text} />
+                    </div>
+                )}
+                {!isDeleted && attachments}
+                {!isDeleted && reactions}
+            </div>
+        </div>
+    )
+}
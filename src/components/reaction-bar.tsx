@@ -0,0 +1,54 @@
+import { useState } from "react"
+import { REACTION_EMOJIS } from "@/lib/room-limits"
+import type { ReactionCount, ReactionEmoji } from "@/hooks/use-reactions"
+
+// Counts under a message - tap one to add or take back yours, or pick another from the set
+export const ReactionBar = ({ counts, onToggle }: {
+    counts: ReactionCount[]
+    onToggle?: (emoji: ReactionEmoji, reacted: boolean) => void
+}) => {
+    const [picking, setPicking] = useState(false)
+    if (counts.length === 0 && !onToggle) return null
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 mt-1">
+            {counts.map(({ emoji, count, mine }) => (
+                <button
+                    key={emoji}
+                    onClick={() => onToggle?.(emoji, !mine)}
+                    disabled={!onToggle}
+                    className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${mine ? "border-green-700 bg-green-950/50 text-zinc-200" : "border-zinc-700 bg-zinc-900 text-zinc-400 hover:border-zinc-600"}`}
+                >
+                    <span>{emoji}</span>
+                    <span className="font-mono text-[10px]">{count}</span>
+                </button>
+            ))}
+            {onToggle && (picking ? (
+                <span className="flex items-center gap-1 rounded-full border border-zinc-700 bg-zinc-900 px-2 py-0.5" onMouseLeave={() => setPicking(false)}>
+                    {REACTION_EMOJIS.map((emoji) => {
+                        const mine = counts.some((count) => count.emoji === emoji && count.mine)
+                        return (
+                            <button
+                                key={emoji}
+                                onClick={() => {
+                                    onToggle(emoji, !mine)
+                                    setPicking(false)
+                                }}
+                                className={`text-xs hover:scale-125 transition-transform ${mine ? "opacity-50" : ""}`}
+                            >
+                                {emoji}
+                            </button>
+                        )
+                    })}
+                </span>
+            ) : (
+                <button
+                    onClick={() => setPicking(true)}
+                    className="hidden group-hover:block rounded-full border border-zinc-800 px-2 py-0.5 text-[10px] text-zinc-500 hover:text-zinc-200 transition-colors"
+                >
+                    + REACT
+                </button>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,29 @@
+const PREVIEW_LENGTH = 80
+
+// The message being answered, quoted above a reply or the composer. original is null when
+// it isn't loaded - it was removed, or sits further back in the history.
+export const ReplyPreview = ({ original, onClick, onDismiss }: {
+    original: { sender: string, text: string | null, deletedAt?: number } | null
+    onClick?: () => void
+    onDismiss?: () => void
+}) => {
+    const text = !original
+        ? "Original message isn't available"
+        : original.deletedAt
+            ? "This message was unsent"
+            : original.text === null
+                ? "Unable to decrypt this message"
+                : original.text.replace(/\s+/g, " ").slice(0, PREVIEW_LENGTH) + (original.text.length > PREVIEW_LENGTH ? "…" : "")
+
+    return (
+        <div className="flex items-center gap-2 border-l-2 border-zinc-600 pl-2 mb-1 text-xs max-w-full">
+            <button onClick={onClick} disabled={!onClick} className="min-w-0 text-left truncate text-zinc-500 hover:text-zinc-300 transition-colors disabled:hover:text-zinc-500">
+                {original && <span className="font-bold text-zinc-400">{original.sender} </span>}
+                <span className="italic">{text}</span>
+            </button>
+            {onDismiss && (
+                <button onClick={onDismiss} className="text-zinc-500 hover:text-red-500 transition-colors">✕</button>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,69 @@
+import { useMemo, useState } from "react"
+import { parseMarkdown, type Block, type Inline } from "@/lib/markdown"
+
+const CodeBlock = ({ language, text }: { language: string | null, text: string }) => {
+    const [copied, setCopied] = useState(false)
+
+    const copy = () => {
+        navigator.clipboard.writeText(text)
+        setCopied(true)
+        setTimeout(() => setCopied(false), 2000)
+    }
+
+    return (
+        <div className="my-1 rounded border border-zinc-700 bg-black">
+            <div className="flex items-center justify-between px-3 py-1 border-b border-zinc-800 text-[10px] text-zinc-600 font-mono">
+                <span>{language ?? "code"}</span>
+                <button onClick={copy} className="text-zinc-500 hover:text-zinc-200 transition-colors">
+                    {copied ? "COPIED!" : "COPY"}
+                </button>
+            </div>
+            <pre className="overflow-x-auto px-3 py-2 text-xs text-zinc-200 font-mono whitespace-pre">
+                <code>{text}</code>
+            </pre>
+        </div>
+    )
+}
+
+const renderInline = (nodes: Inline[]) => nodes.map((node, i) => {
+    switch (node.type) {
+        case "text":
+            return <span key={i}>{node.text}</span>
+        case "code":
+            return <code key={i} className="rounded bg-black px-1 py-0.5 text-xs font-mono text-green-400 break-all">{node.text}</code>
+        case "strong":
+            return <strong key={i} className="font-bold">{renderInline(node.children)}</strong>
+        case "em":
+            return <em key={i} className="italic">{renderInline(node.children)}</em>
+        case "link":
+            return (
+                <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline hover:text-blue-300 break-all">
+                    {node.text}
+                </a>
+            )
+        case "break":
+            return <br key={i} />
+    }
+})
+
+const renderBlocks = (blocks: Block[]) => blocks.map((block, i) => {
+    switch (block.type) {
+        case "paragraph":
+            return <p key={i} className="break-words">{renderInline(block.children)}</p>
+        case "code":
+            return <CodeBlock key={i} language={block.language} text={block.text} />
+        case "quote":
+            return (
+                <blockquote key={i} className="border-l-2 border-zinc-600 pl-3 text-zinc-400 space-y-1">
+                    {renderBlocks(block.children)}
+                </blockquote>
+            )
+    }
+})
+
+// Message text with the Markdown subset from lib/markdown.ts - everything is rendered as
+// React elements, never as HTML
+export const RichText = ({ text }: { text: string }) => {
+    const blocks = useMemo(() => parseMarkdown(text), [text])
+    return <div className="text-zinc-100 text-sm leading-relaxed space-y-1">{renderBlocks(blocks)}</div>
+}
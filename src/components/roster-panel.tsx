@@ -0,0 +1,53 @@
+import { format } from "date-fns"
+import type { ParticipantColor } from "@/lib/participant-colors"
+import type { Participant, Presence } from "@/lib/realtime"
+
+const STATUS_COLORS: Record<Presence["status"], string> = {
+    online: "bg-green-500",
+    away: "bg-amber-500",
+    offline: "bg-zinc-600",
+}
+
+// Everyone who registered a name in this room, in join order - people who left stay listed
+// as offline. onKick is only passed for the room owner, who can remove everyone but themselves.
+export const RosterPanel = ({participants, statuses, colorOf, myId, ownerId, onKick}: {
+    participants: Participant[]
+    statuses: Map<string, Presence["status"]>
+    colorOf: (id: string) => ParticipantColor
+    myId: string | null
+    ownerId?: string | null
+    onKick?: (participant: Participant) => void
+}) => {
+    return (
+        <div className="border-b border-zinc-800 bg-zinc-900/30 px-4 py-3 text-xs">
+            {participants.length === 0 ? (
+                <p className="text-zinc-600">Nobody has picked a name yet</p>
+            ) : (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1">
+                    {participants.map((participant) => {
+                        const status = statuses.get(participant.id) ?? "offline"
+                        return (
+                            <li key={participant.id} className="flex items-center gap-2 font-mono text-zinc-400">
+                                <span title={status} className={`h-2 w-2 rounded-full ${STATUS_COLORS[status]}`} />
+                                <span className={`font-bold ${colorOf(participant.id).text}`}>
+                                    {participant.name}{participant.id === myId && " (you)"}
+                                </span>
+                                {participant.id === ownerId && <span title="Room owner" className="text-amber-500">★</span>}
+                                <span className="text-zinc-600">joined {format(new Date(participant.joinedAt), "HH:mm")} · {status}</span>
+                                {onKick && participant.id !== myId && (
+                                    <button
+                                        onClick={() => onKick(participant)}
+                                        title={`Kick ${participant.name}`}
+                                        className="text-zinc-600 hover:text-red-500 transition-colors"
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+        </div>
+    )
+}
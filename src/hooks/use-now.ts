@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react"
+
+// Current time, refreshed every intervalMs while enabled - for countdowns and timeouts
+export const useNow = (intervalMs: number, enabled = true) => {
+    const [now, setNow] = useState(() => Date.now())
+    useEffect(() => {
+        if (!enabled) return
+        const interval = setInterval(() => setNow(Date.now()), intervalMs)
+        return () => clearInterval(interval)
+    }, [intervalMs, enabled])
+
+    return now
+}
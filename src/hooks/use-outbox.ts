@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from "react"
+import { nanoid } from "nanoid"
+import { client } from "@/lib/client"
+import { decryptText, encryptText } from "@/lib/crypto"
+import type { Message } from "@/lib/realtime"
+import { addToOutbox, loadOutbox, removeFromOutbox, type OutboxEntry } from "@/lib/outbox"
+
+export type OutgoingState = "pending" | "failed"
+
+export type OutgoingMessage = {
+    entry: OutboxEntry
+    text: string | null
+    state: OutgoingState
+}
+
+// Sends messages optimistically. Every message goes through the persisted outbox first and
+// stays there until the server has accepted it, so nothing typed is lost to a failed request,
+// a closed tab or a dropped connection. Retries reuse the clientId, which the server uses to
+// return the original message instead of storing a duplicate.
+//
+// When the server rate limits us the message stays pending and the whole outbox is retried
+// once Retry-After has passed - slowDownSeconds counts down until then.
+export const useOutbox = (roomId: string, key: CryptoKey | null, onSent: (message: Message) => Promise<void> | void) => {
+    const [outgoing, setOutgoing] = useState<OutgoingMessage[]>([])
+    const inFlightRef = useRef(new Set<string>())
+    const [slowDownUntil, setSlowDownUntil] = useState<number | null>(null)
+    const [now, setNow] = useState(() => Date.now())
+
+    const onSentRef = useRef(onSent)
+    useEffect(() => {
+        onSentRef.current = onSent
+    })
+
+    const setState = (clientId: string, state: OutgoingState) => {
+        setOutgoing((prev) => prev.map((message) => message.entry.clientId === clientId ? { ...message, state } : message))
+    }
+
+    const settle = (clientId: string) => {
+        removeFromOutbox(clientId)
+        setOutgoing((prev) => prev.filter((message) => message.entry.clientId !== clientId))
+    }
+
+    const deliver = async (entry: OutboxEntry) => {
+        if (inFlightRef.current.has(entry.clientId)) return
+        inFlightRef.current.add(entry.clientId)
+        setState(entry.clientId, "pending")
+
+        try {
+            const { clientId, ciphertext, nonce, version, expiresIn, burnAfterRead, attachments, replyTo } = entry
+            const res = await client.messages.post(
+                { ciphertext, nonce, version, expiresIn, burnAfterRead, clientId, attachments, replyTo },
+                { query: { roomId } },
+            )
+            if (res.data && "message" in res.data && res.data.message) {
+                await onSentRef.current(res.data.message)
+                settle(clientId)
+                return
+            }
+            // The server already stored this message but can't return it any more
+            if (res.status === 409) {
+                settle(clientId)
+                return
+            }
+            if (res.status === 429) {
+                slowDown(Number(res.response.headers.get("retry-after")) || 1)
+                return
+            }
+            throw res.error ?? new Error("Message was not accepted")
+        } catch (error) {
+            console.error("Failed to send message:", error)
+            setState(entry.clientId, "failed")
+        } finally {
+            inFlightRef.current.delete(entry.clientId)
+        }
+    }
+
+    const retryAll = () => {
+        loadOutbox(roomId).forEach(deliver)
+    }
+
+    // Also used for edits and unsends, which share the server's budget with sending
+    const slowDown = (retryAfterSeconds: number) => {
+        const until = Date.now() + retryAfterSeconds * 1000
+        setNow(Date.now())
+        setSlowDownUntil((prev) => Math.max(prev ?? 0, until))
+    }
+
+    useEffect(() => {
+        if (slowDownUntil === null) return
+        const interval = setInterval(() => {
+            setNow(Date.now())
+            if (Date.now() >= slowDownUntil) {
+                setSlowDownUntil(null)
+                retryAll()
+            }
+        }, 1000)
+        return () => clearInterval(interval)
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [slowDownUntil])
+
+    // Pick up whatever a previous visit left behind, then send it
+    useEffect(() => {
+        if (!key) return
+        const main = async () => {
+            const restored = await Promise.all(loadOutbox(roomId).map(async (entry): Promise<OutgoingMessage> => {
+                try {
+                    return { entry, text: await decryptText(key, entry, roomId), state: "failed" }
+                } catch {
+                    return { entry, text: null, state: "failed" }
+                }
+            }))
+            setOutgoing(restored)
+            if (navigator.onLine) {
+                restored.forEach(({ entry }) => deliver(entry))
+            }
+        }
+        main()
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [roomId, key])
+
+    useEffect(() => {
+        window.addEventListener("online", retryAll)
+        return () => window.removeEventListener("online", retryAll)
+    })
+
+    const send = async (text: string, options: Pick<OutboxEntry, "expiresIn" | "burnAfterRead" | "attachments" | "replyTo">) => {
+        if (!key) {
+            throw new Error("Missing room key")
+        }
+        const entry: OutboxEntry = {
+            ...(await encryptText(key, text, roomId)),
+            clientId: nanoid(),
+            roomId,
+            createdAt: Date.now(),
+            ...options,
+        }
+        addToOutbox(entry)
+        setOutgoing((prev) => [...prev, { entry, text, state: "pending" }])
+        await deliver(entry)
+    }
+
+    const retry = (clientId: string) => {
+        const message = outgoing.find((message) => message.entry.clientId === clientId)
+        if (message) deliver(message.entry)
+    }
+
+    const slowDownSeconds = slowDownUntil === null ? 0 : Math.max(1, Math.ceil((slowDownUntil - now) / 1000))
+
+    return { outgoing, send, retry, discard: settle, slowDownSeconds, slowDown }
+}
@@ -0,0 +1,71 @@
+import { useEffect } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { client } from "@/lib/client"
+import { useRealtime } from "@/lib/realtime-client"
+import type { Presence } from "@/lib/realtime"
+import { useNow } from "./use-now"
+import { HEARTBEAT_INTERVAL_MS, PRESENCE_TIMEOUT_MS } from "@/lib/room-limits"
+
+const currentStatus = () => document.visibilityState === "visible" ? "online" : "away"
+
+// Heartbeats our seat and tracks everyone's presence. Returns each participant's
+// effective status - anyone not heard from within PRESENCE_TIMEOUT_MS is offline.
+export const usePresence = (roomId: string) => {
+    const queryClient = useQueryClient()
+    // Re-evaluate timeouts even when no events arrive
+    const now = useNow(5000)
+
+    const {data: presence} = useQuery({
+        queryKey: ["presence", roomId],
+        queryFn: async () => {
+            const res = await client.room.presence.get({query: {roomId}})
+            return res.data?.presence ?? []
+        },
+    })
+
+    // Someone who left or was kicked sends no goodbye beacon of their own
+    useRealtime({
+        channels: [roomId],
+        events: ["chat.presence", "chat.leave"],
+        onData: ({ event, data }) => {
+            const entry: Presence = event === "chat.presence" ? data : { id: data.id, status: "offline", lastSeen: Date.now() }
+            queryClient.setQueryData(["presence", roomId], (prev: Presence[] | undefined) => [
+                ...(prev ?? []).filter((existing) => existing.id !== entry.id),
+                entry,
+            ])
+        },
+    })
+
+    // If our seat was reclaimed (e.g. the tab slept past SEAT_STALE_MS) reload so
+    // proxy.ts can try to seat us again
+    useEffect(() => {
+        const beat = async () => {
+            const res = await client.room.heartbeat.post({status: currentStatus()}, {query: {roomId}})
+            if (res.status === 401) {
+                window.location.reload()
+            }
+        }
+        // Say goodbye when the tab goes away - sendBeacon survives the page unloading
+        const goodbye = () => {
+            const body = new Blob([JSON.stringify({status: "offline"})], {type: "application/json"})
+            navigator.sendBeacon(`/api/room/heartbeat?roomId=${encodeURIComponent(roomId)}`, body)
+        }
+
+        beat()
+        const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS)
+        document.addEventListener("visibilitychange", beat)
+        window.addEventListener("pagehide", goodbye)
+
+        return () => {
+            clearInterval(interval)
+            document.removeEventListener("visibilitychange", beat)
+            window.removeEventListener("pagehide", goodbye)
+        }
+    }, [roomId])
+
+    const statuses = new Map<string, Presence["status"]>()
+    for (const entry of presence ?? []) {
+        statuses.set(entry.id, now - entry.lastSeen > PRESENCE_TIMEOUT_MS ? "offline" : entry.status)
+    }
+    return statuses
+}
@@ -0,0 +1,64 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { client } from "@/lib/client"
+import type { Reaction } from "@/lib/realtime"
+import { useRealtime } from "@/lib/realtime-client"
+import { REACTION_EMOJIS } from "@/lib/room-limits"
+
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number]
+
+export type ReactionCount = {
+    emoji: ReactionEmoji
+    count: number
+    mine: boolean
+}
+
+const isSame = (a: Reaction, b: Reaction) => a.messageId === b.messageId && a.emoji === b.emoji && a.participantId === b.participantId
+
+// Every reaction in the room, kept up to date from chat.reaction. Toggling updates the
+// cache straight away - the server's echo is a no-op for our own reactions.
+export const useReactions = (roomId: string, myId: string | null) => {
+    const queryClient = useQueryClient()
+
+    const { data: reactions } = useQuery({
+        queryKey: ["reactions", roomId],
+        queryFn: async () => {
+            const res = await client.messages.reactions.get({ query: { roomId } })
+            return res.data?.reactions ?? []
+        },
+    })
+
+    const apply = (reaction: Reaction, reacted: boolean) => {
+        queryClient.setQueryData(["reactions", roomId], (prev: Reaction[] | undefined) => {
+            const others = (prev ?? []).filter((existing) => !isSame(existing, reaction))
+            return reacted ? [...others, reaction] : others
+        })
+    }
+
+    useRealtime({
+        channels: [roomId],
+        events: ["chat.reaction"],
+        onData: ({ data: { reacted, ...reaction } }) => apply(reaction, reacted),
+    })
+
+    const countsFor = (messageId: string): ReactionCount[] => {
+        const onMessage = (reactions ?? []).filter((reaction) => reaction.messageId === messageId)
+        return REACTION_EMOJIS
+            .map((emoji) => {
+                const matching = onMessage.filter((reaction) => reaction.emoji === emoji)
+                return { emoji, count: matching.length, mine: matching.some((reaction) => reaction.participantId === myId) }
+            })
+            .filter(({ count }) => count > 0)
+    }
+
+    const toggle = async (messageId: string, emoji: ReactionEmoji, reacted: boolean) => {
+        if (!myId) return
+        const reaction = { messageId, emoji, participantId: myId }
+        apply(reaction, reacted)
+        const res = await client.messages({ id: messageId }).reactions.post({ emoji, reacted }, { query: { roomId } })
+        if (res.status !== 200) {
+            apply(reaction, !reacted)
+        }
+    }
+
+    return { countsFor, toggle }
+}
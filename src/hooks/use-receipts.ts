@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { client } from "@/lib/client"
+import type { DecryptedMessage } from "@/lib/crypto"
+import type { Receipt } from "@/lib/realtime"
+import { useRealtime } from "@/lib/realtime-client"
+import { useVisibility } from "./use-visibility"
+
+export type DeliveryState = "sent" | "delivered" | "read"
+
+// Reports how far we've got through the room and resolves the delivery state of our own
+// messages from everyone else's receipts
+export const useReceipts = (roomId: string, messages: DecryptedMessage[], myId: string | null) => {
+    const queryClient = useQueryClient()
+    const visible = useVisibility()
+    const ackedRef = useRef({ delivered: 0, read: 0 })
+
+    const { data: receipts } = useQuery({
+        queryKey: ["receipts", roomId],
+        queryFn: async () => {
+            const res = await client.messages.read.get({ query: { roomId } })
+            return res.data?.receipts ?? []
+        },
+    })
+
+    useRealtime({
+        channels: [roomId],
+        events: ["chat.read"],
+        onData: ({ data }) => {
+            queryClient.setQueryData(["receipts", roomId], (prev: Receipt[] | undefined) => [
+                ...(prev ?? []).filter((receipt) => receipt.participantId !== data.participantId),
+                data,
+            ])
+        },
+    })
+
+    // Acknowledge the newest message from someone else - read if we're looking at it,
+    // delivered if it only reached a background tab
+    useEffect(() => {
+        if (!myId) return
+        const latest = messages.findLast((msg) => msg.senderId !== myId)
+        if (!latest) return
+
+        const state = visible ? "read" : "delivered"
+        if (latest.seq <= ackedRef.current[state]) return
+        const acked = { ...ackedRef.current }
+        ackedRef.current[state] = latest.seq
+        if (state === "read") {
+            ackedRef.current.delivered = Math.max(ackedRef.current.delivered, latest.seq)
+        }
+        client.messages.read.post({ messageId: latest.id, state }, { query: { roomId } }).catch((error) => {
+            // Try again the next time this runs - the server ignores receipts that go back
+            ackedRef.current = acked
+            console.error("Failed to send receipt:", error)
+        })
+    }, [messages, myId, visible, roomId])
+
+    const others = (receipts ?? []).filter((receipt) => receipt.participantId !== myId)
+    return (msg: DecryptedMessage): DeliveryState => {
+        if (others.some((receipt) => receipt.readSeq >= msg.seq)) return "read"
+        if (others.some((receipt) => receipt.deliveredSeq >= msg.seq)) return "delivered"
+        return "sent"
+    }
+}
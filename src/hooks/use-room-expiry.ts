@@ -0,0 +1,65 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { useState } from "react"
+import { client } from "@/lib/client"
+import { useRealtime } from "@/lib/realtime-client"
+import type { Extension } from "@/lib/realtime"
+import { useNow } from "./use-now"
+
+// Counts down to the room's expiry and runs the "extend" handshake. The expiry is read once
+// and then only moves when the server says so with chat.ttl, so every client counts down to
+// the same moment instead of drifting apart.
+export const useRoomExpiry = (roomId: string, myId: string | null) => {
+    const queryClient = useQueryClient()
+    const [proposal, setProposal] = useState<Extension | null>(null)
+    const now = useNow(1000)
+
+    const { data: expiresAt } = useQuery({
+        queryKey: ["ttl", roomId],
+        queryFn: async () => {
+            const res = await client.room.ttl.get({ query: { roomId } })
+            return res.data ? Date.now() + res.data.ttl * 1000 : null
+        },
+    })
+
+    useRealtime({
+        channels: [roomId],
+        events: ["chat.ttl", "chat.extend"],
+        onData: ({ event, data }) => {
+            if (event === "chat.ttl") {
+                queryClient.setQueryData(["ttl", roomId], data.expiresAt)
+            }
+            if (event === "chat.extend") {
+                setProposal(data.status === "proposed" ? data : null)
+            }
+        },
+    })
+
+    const timeRemaining = expiresAt == null ? null : Math.max(0, Math.ceil((expiresAt - now) / 1000))
+    const pending = proposal && proposal.expiresAt > now ? proposal : null
+
+    const propose = (seconds: number) => {
+        client.room.extend.post({ seconds }, { query: { roomId } }).catch((error) => {
+            console.error("Failed to propose an extension:", error)
+        })
+    }
+
+    const answer = (id: string, answer: "accept" | "decline") => {
+        const answered = proposal
+        setProposal(null)
+        client.room.extend({ id })({ answer }).post(null, { query: { roomId } }).catch((error) => {
+            // Bring the question back so it can be answered again
+            setProposal((current) => current ?? answered)
+            console.error("Failed to answer the extension:", error)
+        })
+    }
+
+    return {
+        expiresAt: expiresAt ?? null,
+        timeRemaining,
+        // Waiting for someone else to accept ours, or for us to answer theirs
+        myProposal: pending && pending.proposerId === myId ? pending : null,
+        theirProposal: pending && pending.proposerId !== myId ? pending : null,
+        propose,
+        answer,
+    }
+}
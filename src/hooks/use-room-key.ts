@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react"
+import { buildRoomHash, importRoomKey, readRoomKeyFromHash } from "@/lib/crypto"
+import { recallRoomKey, rememberRoomKey } from "@/lib/room-keys"
+
+type RoomKeyState =
+    | { status: "loading"; key: null }
+    | { status: "ready"; key: CryptoKey }
+    | { status: "missing" | "invalid"; key: null }
+
+// Reads the room's encryption key from the URL fragment - it is never sent to the server.
+// Falls back to a key remembered in this browser when the room is reopened without it.
+export const useRoomKey = (roomId: string) => {
+    const [state, setState] = useState<RoomKeyState>({ status: "loading", key: null })
+    useEffect(() => {
+        const main = async () => {
+            const encoded = readRoomKeyFromHash(window.location.hash) ?? recallRoomKey(roomId)
+            if (!encoded) {
+                setState({ status: "missing", key: null })
+                return
+            }
+            try {
+                const key = await importRoomKey(encoded)
+                rememberRoomKey(roomId, encoded)
+                // Put the key back in the URL so the share link stays complete
+                if (!readRoomKeyFromHash(window.location.hash)) {
+                    window.history.replaceState(null, "", buildRoomHash(encoded))
+                }
+                setState({ status: "ready", key })
+            } catch (error) {
+                console.error("Invalid room key:", error)
+                setState({ status: "invalid", key: null })
+            }
+        }
+        main()
+    }, [roomId])
+
+    return state
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react"
+import { client } from "@/lib/client"
+import { useRealtime } from "@/lib/realtime-client"
+import { TYPING_THROTTLE_MS, TYPING_TIMEOUT_MS } from "@/lib/room-limits"
+
+// Tracks who is typing and reports our own keystrokes (throttled on both ends)
+export const useTyping = (roomId: string, myId: string | null) => {
+    const [typing, setTyping] = useState<Record<string, number>>({})
+    const lastSentRef = useRef(0)
+
+    useRealtime({
+        channels: [roomId],
+        events: ["chat.typing", "chat.message"],
+        onData: ({ event, data }) => {
+            if (event === "chat.typing" && data.id !== myId) {
+                setTyping((prev) => ({ ...prev, [data.id]: Date.now() }))
+            }
+            // A sent message ends that participant's typing
+            if (event === "chat.message") {
+                setTyping((prev) => {
+                    const { [data.senderId]: sent, ...rest } = prev
+                    return sent === undefined ? prev : rest
+                })
+            }
+        },
+    })
+
+    // Drop indicators that haven't been refreshed
+    useEffect(() => {
+        if (Object.keys(typing).length === 0) return
+        const timeout = setTimeout(() => {
+            const cutoff = Date.now() - TYPING_TIMEOUT_MS
+            setTyping((prev) => Object.fromEntries(Object.entries(prev).filter(([, at]) => at > cutoff)))
+        }, 1000)
+        return () => clearTimeout(timeout)
+    }, [typing])
+
+    const notifyTyping = () => {
+        const now = Date.now()
+        if (now - lastSentRef.current < TYPING_THROTTLE_MS) return
+        lastSentRef.current = now
+        client.room.typing.post(null, {query: {roomId}}).catch((error) => {
+            // Let the next keystroke try again
+            lastSentRef.current = 0
+            console.error("Failed to send typing notice:", error)
+        })
+    }
+
+    return { typingIds: Object.keys(typing), notifyTyping }
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react"
+
+const subscribe = (onChange: () => void) => {
+    document.addEventListener("visibilitychange", onChange)
+    return () => document.removeEventListener("visibilitychange", onChange)
+}
+
+// Whether this tab is currently visible to the user
+export const useVisibility = () => {
+    return useSyncExternalStore(
+        subscribe,
+        () => document.visibilityState === "visible",
+        () => false,
+    )
+}
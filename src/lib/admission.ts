@@ -0,0 +1,24 @@
+import { realtime } from "./realtime"
+import { store, type RoomMeta } from "./storage"
+
+// Whether a token the browser already holds was let into the room before - the owner's, or
+// one that has held a seat. Those rejoin without an invite or passphrase, even into a locked
+// room; a token made up by the visitor doesn't count.
+export const isAdmitted = async (roomId: string, meta: RoomMeta, token: string | undefined) => {
+    if (!token) return false
+    if (token === meta.ownerToken) return true
+    return await store.isMember(roomId, token) || await store.getParticipant(roomId, token) !== null
+}
+
+// Joins the room, and tells everyone about the people whose stale seats were given away -
+// they never said goodbye, so nothing else would. Someone taking their seat back is
+// announced again, which also hands out their colour if it had to change.
+export const takeSeat = async (roomId: string, token: string) => {
+    const { result, reclaimed, returning } = await store.joinRoom(roomId, token)
+    const gone = await Promise.all(reclaimed.map((member) => store.getParticipant(roomId, member)))
+    for (const participant of gone) {
+        if (participant) await realtime.channel(roomId).emit("chat.leave", { id: participant.id, reason: "timeout" })
+    }
+    if (returning) await realtime.channel(roomId).emit("chat.join", returning)
+    return result
+}
@@ -0,0 +1,56 @@
+import { client } from "./client"
+import { decryptBytes, decryptText, encryptBytes, encryptText, ENCRYPTION_VERSION } from "./crypto"
+import type { Attachment } from "./realtime"
+import { ATTACHMENT_LIMITS, ATTACHMENT_MIME_TYPES } from "./room-limits"
+
+// What a message carries for each file it was sent with - see POST /attachments
+export type AttachmentRef = Pick<Attachment, "id" | "name">
+
+const isAllowedType = (type: string): type is Attachment["mimeType"] => {
+    return (ATTACHMENT_MIME_TYPES as readonly string[]).includes(type)
+}
+
+export const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+// Why a file can't be attached, null when it can
+export const attachmentError = (file: File) => {
+    if (!isAllowedType(file.type)) return `${file.name}: this type of file can't be shared`
+    if (file.size === 0) return `${file.name} is empty`
+    if (file.size > ATTACHMENT_LIMITS.maxBytes) return `${file.name} is larger than ${formatBytes(ATTACHMENT_LIMITS.maxBytes)}`
+    return null
+}
+
+// Encrypts the file and its name with the room key - the server only stores ciphertext
+export const uploadAttachment = async (key: CryptoKey, roomId: string, file: File): Promise<AttachmentRef> => {
+    if (!isAllowedType(file.type)) {
+        throw new Error(attachmentError(file) ?? "Unsupported file")
+    }
+    const encrypted = await encryptBytes(key, await file.arrayBuffer(), roomId)
+    const res = await client.attachments.post({ ...encrypted, mimeType: file.type, size: file.size }, { query: { roomId } })
+    if (!res.data || !("attachment" in res.data)) {
+        const value = res.error?.value
+        throw new Error(value && typeof value === "object" && "error" in value ? String(value.error) : `Could not upload ${file.name}`)
+    }
+    const { ciphertext, nonce } = await encryptText(key, file.name.slice(0, ATTACHMENT_LIMITS.maxNameLength), roomId)
+    return { id: res.data.attachment.id, name: { ciphertext, nonce } }
+}
+
+export const decryptAttachmentName = async (key: CryptoKey, attachment: Pick<Attachment, "name">, roomId: string) => {
+    try {
+        return await decryptText(key, { ...attachment.name, version: ENCRYPTION_VERSION }, roomId)
+    } catch {
+        return null
+    }
+}
+
+// Null once the file is gone - it was unsent, burned or the room ended
+export const fetchAttachment = async (key: CryptoKey, roomId: string, attachment: Attachment) => {
+    const res = await client.attachments({ id: attachment.id }).get({ query: { roomId } })
+    if (!res.data || !("ciphertext" in res.data)) return null
+    const bytes = await decryptBytes(key, res.data, roomId)
+    return new Blob([bytes], { type: attachment.mimeType })
+}
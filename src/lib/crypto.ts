@@ -0,0 +1,163 @@
+import type { Message } from "./realtime"
+import { ATTACHMENT_LIMITS } from "./room-limits"
+
+// Rooms are end-to-end encrypted with AES-GCM. The key is generated in the browser
+// and only ever travels in the #fragment of the room URL, which browsers never send
+// to the server - Redis and the realtime channel only see ciphertext.
+
+export const ENCRYPTION_VERSION = 1
+// Counted in UTF-16 code units of the text as typed, Markdown syntax included - the same unit
+// as String.length and the composer's maxLength, which is what the server's ciphertext bound assumes
+export const MESSAGE_MAX_LENGTH = 1000
+
+const NONCE_BYTES = 12
+const TAG_BYTES = 16
+
+// Length of the base64url ciphertext (plus the GCM tag) for `bytes` bytes of plaintext
+export const ciphertextLength = (bytes: number) => Math.ceil(((bytes + TAG_BYTES) * 4) / 3)
+
+// Every UTF-16 code unit encodes to at most 3 UTF-8 bytes, so this bounds the
+// base64url ciphertext of a MESSAGE_MAX_LENGTH message
+export const CIPHERTEXT_MAX_LENGTH = ciphertextLength(MESSAGE_MAX_LENGTH * 3)
+export const ATTACHMENT_CIPHERTEXT_MAX_LENGTH = ciphertextLength(ATTACHMENT_LIMITS.maxBytes)
+export const ATTACHMENT_NAME_CIPHERTEXT_MAX_LENGTH = ciphertextLength(ATTACHMENT_LIMITS.maxNameLength * 3)
+export const NONCE_LENGTH = Math.ceil((NONCE_BYTES * 4) / 3)
+
+const ROOM_KEY_PARAM = "key"
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = ""
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte)
+    })
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+const fromBase64Url = (value: string) => {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+    const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="))
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+export type EncryptedText = {
+    ciphertext: string
+    nonce: string
+    version: typeof ENCRYPTION_VERSION
+}
+
+// A message after decryption - text is null for unsent messages and when it could not be
+// decrypted (missing or wrong key, tampered ciphertext, unknown version)
+export type DecryptedMessage = Message & { text: string | null }
+
+export const generateRoomKey = async () => {
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"])
+    const raw = await crypto.subtle.exportKey("raw", key)
+    return toBase64Url(new Uint8Array(raw))
+}
+
+export const importRoomKey = (encoded: string) => {
+    return crypto.subtle.importKey("raw", fromBase64Url(encoded), "AES-GCM", false, ["encrypt", "decrypt"])
+}
+
+export const buildRoomHash = (encodedKey: string) => `#${ROOM_KEY_PARAM}=${encodedKey}`
+
+export const readRoomKeyFromHash = (hash: string) => {
+    return new URLSearchParams(hash.replace(/^#/, "")).get(ROOM_KEY_PARAM)
+}
+
+// The roomId is bound as additional data so ciphertext can't be replayed into another room.
+// Attachments are encrypted the same way as message text.
+export const encryptBytes = async (key: CryptoKey, bytes: BufferSource, roomId: string): Promise<EncryptedText> => {
+    const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES))
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv: nonce, additionalData: encoder.encode(roomId) },
+        key,
+        bytes,
+    )
+    return {
+        ciphertext: toBase64Url(new Uint8Array(ciphertext)),
+        nonce: toBase64Url(nonce),
+        version: ENCRYPTION_VERSION,
+    }
+}
+
+export const decryptBytes = async (key: CryptoKey, payload: EncryptedText, roomId: string) => {
+    return crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64Url(payload.nonce), additionalData: encoder.encode(roomId) },
+        key,
+        fromBase64Url(payload.ciphertext),
+    )
+}
+
+export const encryptText = (key: CryptoKey, text: string, roomId: string) => {
+    return encryptBytes(key, encoder.encode(text), roomId)
+}
+
+export const decryptText = async (key: CryptoKey, payload: EncryptedText, roomId: string) => {
+    return decoder.decode(await decryptBytes(key, payload, roomId))
+}
+
+// roomId is the room the page is showing, never message.roomId - that comes from the server,
+// which could otherwise relabel a ciphertext from another room and have it pass
+export const decryptMessage = async (key: CryptoKey | null, message: Message, roomId: string): Promise<DecryptedMessage> => {
+    if (!key || message.deletedAt || message.version !== ENCRYPTION_VERSION) {
+        return { ...message, text: null }
+    }
+    try {
+        return { ...message, text: await decryptText(key, message, roomId) }
+    } catch (error) {
+        console.error("Error decrypting message:", error)
+        return { ...message, text: null }
+    }
+}
+
+// Exported transcripts outlive the room and its key, so they are sealed with a key derived
+// from a passphrase the user picks instead
+const TRANSCRIPT_KDF_ITERATIONS = 600_000
+const SALT_BYTES = 16
+
+export type PassphraseEnvelope = EncryptedText & {
+    kdf: "PBKDF2-SHA256"
+    iterations: number
+    salt: string
+}
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+    const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"])
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+    )
+}
+
+export const encryptWithPassphrase = async (text: string, passphrase: string): Promise<PassphraseEnvelope> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+    const nonce = crypto.getRandomValues(new Uint8Array(NONCE_BYTES))
+    const key = await deriveKey(passphrase, salt, TRANSCRIPT_KDF_ITERATIONS)
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, encoder.encode(text))
+    return {
+        kdf: "PBKDF2-SHA256",
+        iterations: TRANSCRIPT_KDF_ITERATIONS,
+        salt: toBase64Url(salt),
+        ciphertext: toBase64Url(new Uint8Array(ciphertext)),
+        nonce: toBase64Url(nonce),
+        version: ENCRYPTION_VERSION,
+    }
+}
+
+// Throws on a wrong passphrase or a tampered envelope
+export const decryptWithPassphrase = async (envelope: PassphraseEnvelope, passphrase: string) => {
+    const key = await deriveKey(passphrase, fromBase64Url(envelope.salt), envelope.iterations)
+    const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64Url(envelope.nonce) },
+        key,
+        fromBase64Url(envelope.ciphertext),
+    )
+    return decoder.decode(plaintext)
+}
@@ -0,0 +1,172 @@
+// A small Markdown subset for message text. It parses into a tree that components/rich-text.tsx
+// renders as React elements, so nothing a sender types is ever injected as HTML - a `<script>`
+// is just text. Supported: fenced code blocks, > quotes, `inline code`, **bold** / __bold__,
+// *italic* / _italic_, line breaks and bare http(s) URLs as links.
+
+export type Inline =
+    | { type: "text", text: string }
+    | { type: "code", text: string }
+    | { type: "strong", children: Inline[] }
+    | { type: "em", children: Inline[] }
+    | { type: "link", href: string, text: string }
+    | { type: "break" }
+
+export type Block =
+    | { type: "paragraph", children: Inline[] }
+    | { type: "code", language: string | null, text: string }
+    | { type: "quote", children: Block[] }
+
+const FENCE = "```"
+
+// Trailing punctuation usually ends the sentence rather than the URL
+const URL_PATTERN = /^https?:\/\/[^\s<>"]+/
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char)
+
+const readUrl = (text: string, start: number) => {
+    const match = URL_PATTERN.exec(text.slice(start))
+    if (!match) return null
+
+    let url = match[0].replace(TRAILING_PUNCTUATION, "")
+    // Keep a closing paren only if the URL opened one, as in wiki links
+    while (url.endsWith(")") && (url.match(/\(/g)?.length ?? 0) < (url.match(/\)/g)?.length ?? 0)) {
+        url = url.slice(0, -1).replace(TRAILING_PUNCTUATION, "")
+    }
+    try {
+        const parsed = new URL(url)
+        return parsed.protocol === "http:" || parsed.protocol === "https:" ? url : null
+    } catch {
+        return null
+    }
+}
+
+// Where an emphasis run opened at `start` closes, or -1. Underscores only count at word
+// boundaries so snake_case names stay as they are.
+const findClosing = (text: string, start: number, marker: string) => {
+    const isUnderscore = marker.startsWith("_")
+    if (isUnderscore && isWordChar(text[start - 1])) return -1
+    if (text[start + marker.length] === undefined || /\s/.test(text[start + marker.length])) return -1
+
+    let end = text.indexOf(marker, start + marker.length + 1)
+    while (end !== -1) {
+        const closesRun = !/\s/.test(text[end - 1]) && !(isUnderscore && isWordChar(text[end + marker.length]))
+        // A single * or _ must not be half of a ** or __
+        const isDouble = marker.length === 1 && text[end + 1] === marker
+        if (closesRun && !isDouble) return end
+        end = text.indexOf(marker, end + (isDouble ? 2 : 1))
+    }
+    return -1
+}
+
+export const parseInline = (text: string): Inline[] => {
+    const nodes: Inline[] = []
+    let buffer = ""
+    const flush = () => {
+        if (buffer) nodes.push({ type: "text", text: buffer })
+        buffer = ""
+    }
+
+    let i = 0
+    while (i < text.length) {
+        const char = text[i]
+
+        if (char === "`") {
+            const end = text.indexOf("`", i + 1)
+            if (end > i + 1) {
+                flush()
+                nodes.push({ type: "code", text: text.slice(i + 1, end) })
+                i = end + 1
+                continue
+            }
+        }
+
+        if (char === "*" || char === "_") {
+            const marker = text[i + 1] === char ? char + char : char
+            const end = findClosing(text, i, marker)
+            if (end !== -1) {
+                flush()
+                const children = parseInline(text.slice(i + marker.length, end))
+                nodes.push(marker.length === 2 ? { type: "strong", children } : { type: "em", children })
+                i = end + marker.length
+                continue
+            }
+            // Not a run - keep the whole marker so ** isn't split into two attempts
+            buffer += marker
+            i += marker.length
+            continue
+        }
+
+        if (char === "h" && !isWordChar(text[i - 1])) {
+            const url = readUrl(text, i)
+            if (url) {
+                flush()
+                nodes.push({ type: "link", href: url, text: url })
+                i += url.length
+                continue
+            }
+        }
+
+        if (char === "\n") {
+            flush()
+            nodes.push({ type: "break" })
+            i += 1
+            continue
+        }
+
+        buffer += char
+        i += 1
+    }
+    flush()
+    return nodes
+}
+
+const isQuote = (line: string) => line.startsWith(">")
+const isFence = (line: string) => line.trimStart().startsWith(FENCE)
+
+export const parseMarkdown = (text: string): Block[] => {
+    const lines = text.replace(/\r\n?/g, "\n").split("\n")
+    const blocks: Block[] = []
+
+    let i = 0
+    while (i < lines.length) {
+        const line = lines[i]
+
+        if (isFence(line)) {
+            const language = line.trimStart().slice(FENCE.length).trim() || null
+            const code: string[] = []
+            i += 1
+            // An unclosed fence runs to the end of the message
+            while (i < lines.length && !isFence(lines[i])) {
+                code.push(lines[i])
+                i += 1
+            }
+            blocks.push({ type: "code", language, text: code.join("\n") })
+            i += 1
+            continue
+        }
+
+        if (isQuote(line)) {
+            const quoted: string[] = []
+            while (i < lines.length && isQuote(lines[i])) {
+                quoted.push(lines[i].replace(/^> ?/, ""))
+                i += 1
+            }
+            blocks.push({ type: "quote", children: parseMarkdown(quoted.join("\n")) })
+            continue
+        }
+
+        if (line.trim() === "") {
+            i += 1
+            continue
+        }
+
+        const paragraph: string[] = []
+        while (i < lines.length && lines[i].trim() !== "" && !isFence(lines[i]) && !isQuote(lines[i])) {
+            paragraph.push(lines[i])
+            i += 1
+        }
+        blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) })
+    }
+    return blocks
+}
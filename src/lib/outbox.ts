@@ -0,0 +1,44 @@
+import type { AttachmentRef } from "./attachments"
+import type { EncryptedText } from "./crypto"
+
+// Messages that haven't been accepted by the server yet. They are stored encrypted, so the
+// outbox holds nothing a stolen browser profile couldn't already get from the room link.
+
+const STORAGE_KEY = "chat_outbox"
+
+export type OutboxEntry = EncryptedText & {
+    clientId: string
+    roomId: string
+    createdAt: number
+    expiresIn?: number
+    burnAfterRead?: boolean
+    // Already uploaded - only the message itself is retried
+    attachments?: AttachmentRef[]
+    replyTo?: string
+}
+
+const readAll = (): OutboxEntry[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+        return Array.isArray(parsed) ? parsed : []
+    } catch {
+        return []
+    }
+}
+
+export const loadOutbox = (roomId: string) => {
+    return readAll().filter((entry) => entry.roomId === roomId)
+}
+
+export const addToOutbox = (entry: OutboxEntry) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...readAll(), entry]))
+}
+
+export const removeFromOutbox = (clientId: string) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readAll().filter((entry) => entry.clientId !== clientId)))
+}
+
+// Drops entries for rooms that no longer exist
+export const pruneOutbox = (activeRoomIds: string[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readAll().filter((entry) => activeRoomIds.includes(entry.roomId))))
+}
@@ -0,0 +1,29 @@
+import type { Participant } from "./realtime"
+
+// Tailwind only generates classes it finds spelled out in the source, so each colour lists
+// both. There is one per seat in the largest room (ROOM_PARTICIPANTS.max).
+const PALETTE = [
+    { text: "text-green-500", dot: "bg-green-500" },
+    { text: "text-blue-400", dot: "bg-blue-400" },
+    { text: "text-amber-400", dot: "bg-amber-400" },
+    { text: "text-pink-400", dot: "bg-pink-400" },
+    { text: "text-cyan-400", dot: "bg-cyan-400" },
+    { text: "text-purple-400", dot: "bg-purple-400" },
+    { text: "text-orange-400", dot: "bg-orange-400" },
+    { text: "text-lime-400", dot: "bg-lime-400" },
+    { text: "text-rose-400", dot: "bg-rose-400" },
+    { text: "text-indigo-400", dot: "bg-indigo-400" },
+] as const
+
+export type ParticipantColor = (typeof PALETTE)[number]
+
+const hash = (id: string) => [...id].reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 0)
+
+// The server hands out colours, so every browser agrees and nobody shares one with someone
+// else holding a seat - a colour only goes to a newcomer once whoever had it has left, and
+// whoever comes back to find theirs taken gets a free one. Someone we haven't fetched yet
+// gets a colour from their id until the list catches up.
+export const participantColors = (participants: Participant[]) => {
+    const colors = new Map(participants.map((participant) => [participant.id, participant.color]))
+    return (id: string): ParticipantColor => PALETTE[(colors.get(id) ?? hash(id)) % PALETTE.length]
+}
@@ -0,0 +1,39 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "node:crypto"
+
+// Room passphrases are only ever kept as a salted scrypt hash in the room's meta. The
+// parameters are stored next to the hash so they can be raised later without breaking
+// rooms created before.
+//
+// Format: scrypt$N$r$p$salt$hash (salt and hash base64url)
+
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }
+const SALT_BYTES = 16
+const KEY_BYTES = 32
+
+const derive = (passphrase: string, salt: Buffer, options: ScryptOptions) => new Promise<Buffer>((resolve, reject) => {
+    scrypt(passphrase.normalize("NFKC"), salt, KEY_BYTES, options, (error, key) => {
+        if (error) reject(error)
+        else resolve(key)
+    })
+})
+
+export const hashPassphrase = async (passphrase: string) => {
+    const salt = randomBytes(SALT_BYTES)
+    const key = await derive(passphrase, salt, SCRYPT_OPTIONS)
+    const { N, r, p } = SCRYPT_OPTIONS
+    return ["scrypt", N, r, p, salt.toString("base64url"), key.toString("base64url")].join("$")
+}
+
+export const verifyPassphrase = async (passphrase: string, stored: string) => {
+    const [scheme, N, r, p, salt, hash] = stored.split("$")
+    if (scheme !== "scrypt" || !salt || !hash) return false
+
+    const expected = Buffer.from(hash, "base64url")
+    const key = await derive(passphrase, Buffer.from(salt, "base64url"), {
+        N: Number(N),
+        r: Number(r),
+        p: Number(p),
+        maxmem: SCRYPT_OPTIONS.maxmem,
+    })
+    return key.length === expected.length && timingSafeEqual(key, expected)
+}
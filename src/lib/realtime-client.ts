@@ -2,5 +2,9 @@
 
 import { createRealtime } from "@upstash/realtime/client"
 import type { RealtimeEvents } from "./realtime"
+import { createLocalRealtime } from "./realtime-local-client"
 
-export const { useRealtime } = createRealtime<RealtimeEvents>()
\ No newline at end of file
+// Must match the transport the server emits on - see REALTIME_TRANSPORT in lib/realtime.ts
+export const { useRealtime } = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === "local"
+    ? createLocalRealtime<RealtimeEvents>()
+    : createRealtime<RealtimeEvents>()
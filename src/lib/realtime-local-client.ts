@@ -0,0 +1,144 @@
+"use client"
+
+import { useEffect, useRef, useSyncExternalStore } from "react"
+import type { createRealtime } from "@upstash/realtime/client"
+import type { LocalEvent } from "./realtime-local"
+
+// Browser side of the self-hosted transport in realtime-local.ts. Every channel gets one
+// EventSource shared by all hooks listening to it. EventSource reconnects by itself and
+// sends Last-Event-ID, so short drops lose nothing; if the server ends the stream for good
+// we open a new one and pass the last id along ourselves.
+
+type ConnectionStatus = ReturnType<ReturnType<typeof createRealtime>["useRealtime"]>["status"]
+
+type Connection = {
+    source: EventSource | null
+    status: ConnectionStatus
+    lastEventId: string | null
+    listeners: Set<(event: LocalEvent) => void>
+    retryTimeout: ReturnType<typeof setTimeout> | null
+    attempts: number
+}
+
+const REALTIME_URL = "/api/realtime"
+const MAX_RETRY_DELAY_MS = 10 * 1000
+
+const connections = new Map<string, Connection>()
+const statusListeners = new Set<() => void>()
+
+const setStatus = (connection: Connection, status: ConnectionStatus) => {
+    if (connection.status === status) return
+    connection.status = status
+    statusListeners.forEach((listener) => listener())
+}
+
+const open = (channel: string, connection: Connection) => {
+    const params = new URLSearchParams({ channel })
+    if (connection.lastEventId) {
+        params.set("lastEventId", connection.lastEventId)
+    }
+    const source = new EventSource(`${REALTIME_URL}?${params}`)
+    connection.source = source
+    setStatus(connection, "connecting")
+
+    source.onopen = () => {
+        connection.attempts = 0
+        setStatus(connection, "connected")
+    }
+    source.onmessage = (message) => {
+        try {
+            const event = JSON.parse(message.data) as LocalEvent
+            connection.lastEventId = event.id
+            connection.listeners.forEach((listener) => listener(event))
+        } catch (error) {
+            console.warn("Error parsing realtime event:", error)
+        }
+    }
+    source.onerror = () => {
+        // Still CONNECTING means the browser is already retrying with Last-Event-ID
+        if (source.readyState === EventSource.CONNECTING) {
+            setStatus(connection, "connecting")
+            return
+        }
+        source.close()
+        setStatus(connection, "disconnected")
+        connection.attempts += 1
+        connection.retryTimeout = setTimeout(() => {
+            connection.retryTimeout = null
+            if (connections.get(channel) === connection) open(channel, connection)
+        }, Math.min(1000 * connection.attempts, MAX_RETRY_DELAY_MS))
+    }
+}
+
+const subscribe = (channel: string, listener: (event: LocalEvent) => void) => {
+    let connection = connections.get(channel)
+    if (!connection) {
+        connection = { source: null, status: "disconnected", lastEventId: null, listeners: new Set(), retryTimeout: null, attempts: 0 }
+        connections.set(channel, connection)
+        open(channel, connection)
+    }
+    connection.listeners.add(listener)
+
+    const current = connection
+    return () => {
+        current.listeners.delete(listener)
+        if (current.listeners.size > 0) return
+        // Nobody is listening any more - a later subscriber starts from the live stream
+        current.source?.close()
+        if (current.retryTimeout) clearTimeout(current.retryTimeout)
+        connections.delete(channel)
+        statusListeners.forEach((statusListener) => statusListener())
+    }
+}
+
+const subscribeStatus = (listener: () => void) => {
+    statusListeners.add(listener)
+    return () => {
+        statusListeners.delete(listener)
+    }
+}
+
+// Connected only once every channel the hook listens to is
+const combinedStatus = (channels: string[]): ConnectionStatus => {
+    const statuses = channels.map((channel) => connections.get(channel)?.status ?? "disconnected")
+    if (statuses.length === 0) return "disconnected"
+    if (statuses.every((status) => status === "connected")) return "connected"
+    if (statuses.includes("connecting")) return "connecting"
+    return "disconnected"
+}
+
+export const createLocalRealtime = <T extends Record<string, unknown>>() => {
+    type UseRealtime = ReturnType<typeof createRealtime<T>>["useRealtime"]
+    type Options = Parameters<UseRealtime>[0]
+
+    const useRealtime = ({ channels = [], events, onData, enabled = true }: Options) => {
+        const onDataRef = useRef(onData)
+        useEffect(() => {
+            onDataRef.current = onData
+        })
+
+        const channelList = channels.filter((channel): channel is string => Boolean(channel))
+        const channelsKey = channelList.join("\n")
+        const eventsKey = events?.join("\n")
+
+        const status = useSyncExternalStore(
+            subscribeStatus,
+            () => enabled ? combinedStatus(channelList) : "disconnected",
+            () => "disconnected",
+        )
+
+        useEffect(() => {
+            if (!enabled) return
+            const wanted = eventsKey?.split("\n")
+            const unsubscribes = channelsKey.split("\n").filter(Boolean).map((channel) => subscribe(channel, (event) => {
+                if (wanted && !wanted.includes(event.event)) return
+                onDataRef.current?.({ event: event.event, data: event.data, channel: event.channel } as Parameters<NonNullable<Options["onData"]>>[0])
+            }))
+            return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+        }, [channelsKey, eventsKey, enabled])
+
+        return { status }
+    }
+
+    return { useRealtime: useRealtime as UseRealtime }
+}
@@ -0,0 +1,134 @@
+import type { EventData, EventPath, Opts } from "@upstash/realtime"
+import type * as z from "zod/v4/core"
+import { parse } from "zod/v4/core"
+
+// Self-hosted realtime: events are fanned out in this process and streamed to browsers over
+// SSE from /api/realtime. Every event gets an increasing id, and the last HISTORY_LIMIT events
+// are kept so a client that reconnects with Last-Event-ID gets whatever it missed.
+//
+// Everything lives in one Node process - it won't work across several server instances or
+// on serverless platforms, use the Upstash transport there.
+
+const HISTORY_LIMIT = 1000
+const PING_INTERVAL_MS = 25 * 1000
+// Tells EventSource how long to wait before it reconnects on its own
+const RETRY_MS = 1000
+
+export type LocalEvent = {
+    id: string
+    channel: string
+    event: string
+    data: unknown
+}
+
+type Hub = {
+    lastId: number
+    history: LocalEvent[]
+    listeners: Set<(event: LocalEvent) => void>
+}
+
+// The API routes and the realtime route are bundled separately - they must share one hub
+const globalForHub = globalThis as typeof globalThis & { chatRealtimeHub?: Hub }
+const hub = globalForHub.chatRealtimeHub ??= { lastId: 0, history: [], listeners: new Set() }
+
+const publish = (channel: string, event: string, data: unknown) => {
+    hub.lastId += 1
+    const published: LocalEvent = { id: String(hub.lastId), channel, event, data }
+    hub.history.push(published)
+    if (hub.history.length > HISTORY_LIMIT) {
+        hub.history.splice(0, hub.history.length - HISTORY_LIMIT)
+    }
+    hub.listeners.forEach((listener) => listener(published))
+}
+
+// Listens to every event published in this process, whatever the channel
+export const subscribeToLocalEvents = (listener: (event: LocalEvent) => void) => {
+    hub.listeners.add(listener)
+    return () => {
+        hub.listeners.delete(listener)
+    }
+}
+
+// Finds the zod schema for a dotted event name like "chat.message"
+const findSchema = (schema: Record<string, unknown>, event: string) => {
+    let node: unknown = schema
+    for (const part of event.split(".")) {
+        if (!node || typeof node !== "object") return null
+        node = (node as Record<string, unknown>)[part]
+    }
+    return node && typeof node === "object" && "_zod" in node ? node as z.$ZodType : null
+}
+
+const encoder = new TextEncoder()
+
+export const createLocalRealtime = <T extends Opts>({ schema }: T) => {
+    const channel = (name: string) => ({
+        emit: async <K extends EventPath<T>>(event: K, data: EventData<T, K>) => {
+            // Validated like the Upstash transport does, so both reject the same payloads
+            const eventSchema = schema ? findSchema(schema, event) : null
+            if (eventSchema) {
+                parse(eventSchema, data)
+            }
+            publish(name, event, data)
+        },
+    })
+
+    // GET /api/realtime?channel=a&channel=b - browsers resume with the Last-Event-ID header
+    // when EventSource reconnects by itself, and with ?lastEventId= when the client had
+    // to open a new connection
+    const handler = async (request: Request) => {
+        const url = new URL(request.url)
+        const channels = url.searchParams.getAll("channel")
+        if (channels.length === 0) {
+            return new Response("At least one channel is required", { status: 400 })
+        }
+        const lastEventId = Number(request.headers.get("last-event-id") ?? url.searchParams.get("lastEventId"))
+
+        let cleanup = () => {}
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                const write = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+                const send = (event: LocalEvent) => {
+                    if (channels.includes(event.channel)) {
+                        write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`)
+                    }
+                }
+
+                write(`retry: ${RETRY_MS}\n\n`)
+                if (Number.isFinite(lastEventId) && lastEventId > 0) {
+                    hub.history.filter((event) => Number(event.id) > lastEventId).forEach(send)
+                }
+
+                const unsubscribe = subscribeToLocalEvents(send)
+                // Comments keep proxies from closing an idle stream
+                const ping = setInterval(() => write(": ping\n\n"), PING_INTERVAL_MS)
+
+                cleanup = () => {
+                    clearInterval(ping)
+                    unsubscribe()
+                }
+                request.signal.addEventListener("abort", () => {
+                    cleanup()
+                    try {
+                        controller.close()
+                    } catch {
+                        // Already closed by the runtime
+                    }
+                })
+            },
+            cancel() {
+                cleanup()
+            },
+        })
+
+        return new Response(stream, {
+            headers: {
+                "Content-Type": "text/event-stream",
+                "Cache-Control": "no-cache, no-transform",
+                Connection: "keep-alive",
+            },
+        })
+    }
+
+    return { channel, handler }
+}
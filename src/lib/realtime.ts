@@ -1,25 +1,162 @@
-import { Realtime, InferRealtimeEvents } from "@upstash/realtime"
-import { redis } from "./redis"
+import { handle, Realtime, type EventData, type EventPath } from "@upstash/realtime"
+import { getRedis } from "./redis"
+import { createLocalRealtime } from "./realtime-local"
 import z from "zod/v4"
+import { ATTACHMENT_NAME_CIPHERTEXT_MAX_LENGTH, CIPHERTEXT_MAX_LENGTH, ENCRYPTION_VERSION, NONCE_LENGTH } from "./crypto"
+import { ATTACHMENT_LIMITS, ATTACHMENT_MIME_TYPES, REACTION_EMOJIS } from "./room-limits"
+import { TRANSCRIPT_FORMATS } from "./transcript"
+
+// A display name registered once per token when it joins a room. The id is a stable,
+// public per-room handle - tokens themselves are never exposed to other participants.
+// color indexes the roster palette and is never one held by someone else with a seat.
+const participant = z.object({
+    id: z.string(),
+    name: z.string(),
+    joinedAt: z.number(),
+    color: z.number().int().min(0),
+})
+
+// Online/away come from heartbeats, offline from a goodbye beacon - clients also treat a
+// participant as offline once lastSeen is older than PRESENCE_TIMEOUT_MS
+const presence = z.object({
+    id: z.string(),
+    status: z.enum(["online", "away", "offline"]),
+    lastSeen: z.number(),
+})
+
+// How far each participant has got through the room's messages, by message seq
+const receipt = z.object({
+    participantId: z.string(),
+    deliveredSeq: z.number(),
+    readSeq: z.number(),
+    readMessageId: z.string().optional(),
+})
+
+// A file uploaded to POST /attachments before the message was sent. The file itself is only
+// fetched on demand; its name is encrypted with the room key like the message text.
+const attachment = z.object({
+    id: z.string(),
+    mimeType: z.enum(ATTACHMENT_MIME_TYPES),
+    size: z.number().int().positive().max(ATTACHMENT_LIMITS.maxBytes),
+    name: z.object({
+        ciphertext: z.string().max(ATTACHMENT_NAME_CIPHERTEXT_MAX_LENGTH),
+        nonce: z.string().max(NONCE_LENGTH),
+    }),
+})
 
 const message = z.object({
     id: z.string(),
+    // Name at the time of sending, stamped by the server - senderId is what identifies the author
     sender: z.string(),
-    text: z.string(),
+    senderId: z.string(),
+    // Only ciphertext ever reaches the server, see lib/crypto.ts. Unsent messages keep
+    // their place as a tombstone with both emptied.
+    ciphertext: z.string().max(CIPHERTEXT_MAX_LENGTH),
+    nonce: z.string().max(NONCE_LENGTH),
+    version: z.literal(ENCRYPTION_VERSION),
     timestamp: z.number(),
+    // Per-room ordering, assigned by the server
+    seq: z.number(),
+    editedAt: z.number().optional(),
+    deletedAt: z.number().optional(),
+    // Removed for good once expiresAt passes or, for burnAfterRead, once a recipient reads it
+    expiresAt: z.number().optional(),
+    burnAfterRead: z.boolean().optional(),
+    attachments: z.array(attachment).max(ATTACHMENT_LIMITS.perMessage).optional(),
+    // The message this one answers - it may have been removed since
+    replyTo: z.string().optional(),
     roomId: z.string(),
     token: z.string().optional(),
 })
 
+// One participant's emoji on one message
+const reaction = z.object({
+    messageId: z.string(),
+    emoji: z.enum(REACTION_EMOJIS),
+    participantId: z.string(),
+})
+
+// Someone asked for more time - it only happens once somebody else accepts
+const extension = z.object({
+    id: z.string(),
+    proposerId: z.string(),
+    seconds: z.number(),
+    expiresAt: z.number(),
+    status: z.enum(["proposed", "accepted", "declined"]),
+})
+
 const schema = {
     chat: { 
         message,
+        edit: message,
+        delete: message,
+        remove: z.object({
+            ids: z.array(z.string()),
+        }),
+        read: receipt,
+        // Added, or taken back when reacted is false
+        reaction: reaction.extend({
+            reacted: z.boolean(),
+        }),
         destroy: z.object({
             isDestroyed: z.literal(true),
         }),
+        rename: participant.pick({ id: true, name: true }),
+        // Shown inline in the message list - join once a name is registered, leave when the
+        // seat is given up or taken away by the owner
+        join: participant,
+        leave: participant.pick({ id: true }).extend({
+            reason: z.enum(["left", "kicked", "timeout"]),
+        }),
+        // The owner removed this participant - their browser leaves the room
+        kicked: participant.pick({ id: true }),
+        lock: z.object({
+            locked: z.boolean(),
+        }),
+        extend: extension,
+        // The room's new expiry (ms) - clients count down to it instead of polling
+        ttl: z.object({
+            expiresAt: z.number(),
+        }),
+        // Someone saved a copy of the conversation - id is who
+        exported: z.object({
+            id: z.string(),
+            format: z.enum(TRANSCRIPT_FORMATS),
+            encrypted: z.boolean(),
+        }),
+        typing: participant.pick({ id: true }),
+        presence,
     },
 }
 
-export const realtime = new Realtime({ schema, redis })
-export type RealtimeEvents = InferRealtimeEvents<typeof realtime>
-export type Message = z.infer<typeof message>
\ No newline at end of file
+// NEXT_PUBLIC_REALTIME_TRANSPORT picks how events reach browsers - "upstash" (default) or
+// "local" to stream them from this server. It is read by the client too, so both always agree.
+export const REALTIME_TRANSPORT = process.env.NEXT_PUBLIC_REALTIME_TRANSPORT === "local" ? "local" : "upstash"
+
+type RealtimeOpts = { schema: typeof schema }
+
+export type RealtimeEmitter = {
+    channel: (name: string) => {
+        emit: <K extends EventPath<RealtimeOpts>>(event: K, data: EventData<RealtimeOpts, K>) => Promise<void>
+    }
+}
+
+const createTransport = (): { realtime: RealtimeEmitter, handler: (request: Request) => Promise<Response | void> } => {
+    if (REALTIME_TRANSPORT === "local") {
+        const local = createLocalRealtime({ schema })
+        return { realtime: local, handler: local.handler }
+    }
+    const upstash = new Realtime({ schema, redis: getRedis() })
+    return { realtime: upstash, handler: handle({ realtime: upstash }) }
+}
+
+// realtimeHandler serves the browser side of the transport from /api/realtime
+export const { realtime, handler: realtimeHandler } = createTransport()
+export type RealtimeEvents = typeof schema
+export type Message = z.infer<typeof message>
+export type Participant = z.infer<typeof participant>
+export type Presence = z.infer<typeof presence>
+export type Receipt = z.infer<typeof receipt>
+export type Extension = z.infer<typeof extension>
+export type Attachment = z.infer<typeof attachment>
+export type Reaction = z.infer<typeof reaction>
\ No newline at end of file
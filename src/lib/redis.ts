@@ -1,3 +1,9 @@
 import { Redis } from "@upstash/redis";
 
-export const redis = Redis.fromEnv()
+let redis: Redis | null = null
+
+// Created on first use so the in-memory store and local realtime run without Upstash credentials
+export const getRedis = () => {
+    redis ??= Redis.fromEnv()
+    return redis
+}
@@ -0,0 +1,38 @@
+// Remembers room keys for this tab so a reload or "My rooms" can reopen a room without the
+// original link. They live in sessionStorage, so closing the tab drops them, and the room
+// page forgets a key as soon as its room is destroyed or expires. Keys never leave the
+// device - they are not sent to the server.
+
+const STORAGE_KEY = "chat_room_keys"
+
+const readAll = (): Record<string, string> => {
+    try {
+        const parsed = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "{}")
+        return parsed && typeof parsed === "object" ? parsed : {}
+    } catch {
+        return {}
+    }
+}
+
+export const rememberRoomKey = (roomId: string, encodedKey: string) => {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [roomId]: encodedKey }))
+}
+
+export const forgetRoomKey = (roomId: string) => {
+    const keys = readAll()
+    delete keys[roomId]
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(keys))
+}
+
+export const recallRoomKey = (roomId: string): string | null => {
+    return readAll()[roomId] ?? null
+}
+
+// Drops keys for rooms that no longer exist
+export const pruneRoomKeys = (activeRoomIds: string[]) => {
+    const keys = readAll()
+    const kept = Object.fromEntries(Object.entries(keys).filter(([roomId]) => activeRoomIds.includes(roomId)))
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(kept))
+    // Earlier versions kept every key in localStorage - don't leave them on disk
+    localStorage.removeItem(STORAGE_KEY)
+}
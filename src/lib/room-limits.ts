@@ -0,0 +1,126 @@
+// Room limits shared by the client and the API
+
+export const ROOM_TTL_SECONDS = {
+    min: 60,
+    max: 60 * 60,
+    default: 60 * 10,
+}
+
+export const ROOM_PARTICIPANTS = {
+    min: 2,
+    max: 10,
+    default: 2,
+}
+
+// Clients heartbeat their seat on this interval. A seat that hasn't been refreshed for
+// SEAT_STALE_MS can be reclaimed by someone else joining a full room.
+export const HEARTBEAT_INTERVAL_MS = 20 * 1000
+export const SEAT_STALE_MS = 60 * 1000
+
+// A participant whose last heartbeat is older than this is shown as offline
+export const PRESENCE_TIMEOUT_MS = HEARTBEAT_INTERVAL_MS * 2 + 5 * 1000
+
+// The server emits at most one typing event per participant per TYPING_THROTTLE_MS,
+// clients drop the indicator TYPING_TIMEOUT_MS after the last one
+export const TYPING_THROTTLE_MS = 2 * 1000
+export const TYPING_TIMEOUT_MS = 5 * 1000
+
+// Per-message lifetime a sender can choose, never longer than the room itself
+export const MESSAGE_EXPIRY_SECONDS = {
+    min: 5,
+    max: ROOM_TTL_SECONDS.max,
+}
+
+// How long a burn-after-read message stays on the reader's screen once it has been burned
+export const BURN_VIEW_SECONDS = 10
+
+// Messages returned per page of history
+export const MESSAGE_PAGE_SIZE = {
+    default: 50,
+    max: 100,
+}
+
+// Sliding window budgets for the API, counted separately per client IP and per room token.
+// A request has to fit in both; a missing budget isn't enforced for that key.
+export type RateLimitBudget = {
+    windowMs: number
+    perIp?: number
+    perToken?: number
+}
+
+export const RATE_LIMITS = {
+    createRoom: { windowMs: 60 * 1000, perIp: 10 },
+    sendMessage: { windowMs: 10 * 1000, perIp: 60, perToken: 20 },
+    // Edits and unsends
+    changeMessage: { windowMs: 10 * 1000, perIp: 60, perToken: 20 },
+    identity: { windowMs: 60 * 1000, perIp: 30, perToken: 10 },
+    // Passphrase attempts - wrong guesses also count towards the room's JOIN_ATTEMPTS lockout
+    joinRoom: { windowMs: 60 * 1000, perIp: 10 },
+    createInvite: { windowMs: 60 * 1000, perIp: 30, perToken: 10 },
+    proposeExtension: { windowMs: 60 * 1000, perToken: 3 },
+    uploadAttachment: { windowMs: 60 * 1000, perIp: 20, perToken: 10 },
+    react: { windowMs: 10 * 1000, perIp: 60, perToken: 30 },
+} satisfies Record<string, RateLimitBudget>
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS
+
+// Optional room passphrase chosen at creation
+export const PASSPHRASE_LENGTH = {
+    min: 4,
+    max: 128,
+}
+
+// After `max` wrong passphrases within lockoutMs a room stops accepting attempts for lockoutMs
+export const JOIN_ATTEMPTS = {
+    max: 5,
+    lockoutMs: 5 * 60 * 1000,
+}
+
+// Invites - every newcomer needs one. Single-use unless the minter allows more uses, and
+// never valid for longer than the room has left.
+export const INVITE_USES = {
+    min: 1,
+    max: ROOM_PARTICIPANTS.max,
+    default: 1,
+}
+
+export const INVITE_EXPIRY_SECONDS = {
+    min: 60,
+    max: ROOM_TTL_SECONDS.max,
+    default: 60 * 10,
+}
+
+// Extra time a participant can propose once everyone else agrees. A room never lives longer
+// than ROOM_MAX_LIFETIME_SECONDS from its creation, however often it is extended.
+export const ROOM_EXTENSION_SECONDS = {
+    min: 60,
+    max: 60 * 60,
+    default: 60 * 10,
+}
+export const ROOM_MAX_LIFETIME_SECONDS = 60 * 60 * 4
+
+// How long a proposal waits for someone to accept it
+export const EXTENSION_PROPOSAL_MS = 60 * 1000
+
+// Files are encrypted in the browser, so the server checks the size it is told against the
+// length of the ciphertext and has to take the declared type on trust
+export const ATTACHMENT_LIMITS = {
+    maxBytes: 512 * 1024,
+    perMessage: 4,
+    // Everything uploaded to one room, sent or not
+    perRoomBytes: 5 * 1024 * 1024,
+    maxNameLength: 255,
+}
+
+export const ATTACHMENT_MIME_TYPES = [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "text/plain",
+    "application/json",
+    "application/pdf",
+] as const
+
+// The only emoji a message can be reacted to with - each participant can add each one once
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "😢", "🔥"] as const
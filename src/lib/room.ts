@@ -0,0 +1,18 @@
+// Each room gets its own token cookie so a browser can hold seats in many rooms at once
+const TOKEN_COOKIE_PREFIX = "x-auth-token-"
+
+export const roomTokenCookie = (roomId: string) => `${TOKEN_COOKIE_PREFIX}${roomId}`
+
+export const roomIdFromCookie = (name: string) => {
+    return name.startsWith(TOKEN_COOKIE_PREFIX) ? name.slice(TOKEN_COOKIE_PREFIX.length) || null : null
+}
+
+// Shared by the join proxy and POST /api/room/join. The cookie expires with the room so
+// stale memberships don't pile up.
+export const roomTokenCookieOptions = (maxAge: number) => ({
+    path: "/",
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict" as const,
+    maxAge,
+})
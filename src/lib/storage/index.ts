@@ -0,0 +1,21 @@
+import { getRedis } from "../redis"
+import { createMemoryStore } from "./memory"
+import type { Store } from "./types"
+import { createUpstashStore } from "./upstash"
+
+export type { ExtensionProposal, Invite, JoinResult, MessagePage, RoomMeta, Store, StoredAttachment } from "./types"
+
+// STORAGE_BACKEND picks where rooms live - "upstash" (default) or "memory" to run
+// everything in this process without an Upstash account
+const createStore = (): Store => {
+    const backend = process.env.STORAGE_BACKEND ?? "upstash"
+    if (backend === "memory") return createMemoryStore()
+    if (backend === "upstash") return createUpstashStore(getRedis())
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}" - expected "upstash" or "memory"`)
+}
+
+// The proxy and the API routes are bundled separately, so the store is kept on globalThis
+// to make sure they share one instance (and that the in-memory one survives hot reloads)
+const globalForStore = globalThis as typeof globalThis & { chatStore?: Store }
+
+export const store = globalForStore.chatStore ??= createStore()
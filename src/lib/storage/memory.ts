@@ -0,0 +1,493 @@
+import { nanoid } from "nanoid"
+import type { Message, Participant, Presence, Reaction, Receipt } from "../realtime"
+import { ATTACHMENT_LIMITS, JOIN_ATTEMPTS, ROOM_MAX_LIFETIME_SECONDS, SEAT_STALE_MS } from "../room-limits"
+import { isLive, isOutstanding, nextReceipt, reactionKey } from "./shared"
+import type { ExtensionProposal, Invite, RoomMeta, Store, StoredAttachment } from "./types"
+
+// Keeps every room in this process - for local development and CI without an Upstash
+// account. A room and everything in it disappears once its lifetime runs out, exactly like
+// the expiring Redis keys, so nothing here outlives the room.
+
+type MemoryRoom = {
+    meta: RoomMeta
+    expiresAt: number
+    // token -> last heartbeat (ms)
+    members: Map<string, number>
+    participants: Map<string, Participant>
+    presence: Map<string, Presence["status"]>
+    // Only ever appended to, so insertion order is seq order
+    messages: Map<string, Message>
+    seq: number
+    receipts: Map<string, Receipt>
+    // reactionKey -> reaction
+    reactions: Map<string, Reaction>
+    idempotency: Map<string, string>
+    kicked: Set<string>
+    invites: Map<string, Invite>
+    attachments: Map<string, StoredAttachment>
+    extensions: Map<string, ExtensionProposal>
+    // Wrong passphrases since failuresResetAt, and the end of the current lockout (ms)
+    joinFailures: number
+    failuresResetAt: number
+    lockedUntil: number
+}
+
+// Values are copied in and out the way they would be serialized to Redis, so callers
+// can't change stored data by mutating what they were given
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+export const createMemoryStore = ({ now = () => Date.now() }: { now?: () => number } = {}): Store => {
+    const rooms = new Map<string, MemoryRoom>()
+    const throttles = new Map<string, number>()
+    // key -> request times (ms) inside the current window, oldest first
+    const rateLimits = new Map<string, { times: number[], windowMs: number }>()
+
+    // Expired rooms are dropped lazily whenever they are looked up
+    const getRoom = (roomId: string) => {
+        const room = rooms.get(roomId)
+        if (room && room.expiresAt <= now()) {
+            rooms.delete(roomId)
+            return null
+        }
+        return room ?? null
+    }
+
+    const sweep = () => {
+        const current = now()
+        for (const [roomId, room] of rooms) {
+            if (room.expiresAt <= current) rooms.delete(roomId)
+        }
+        for (const [key, until] of throttles) {
+            if (until <= current) throttles.delete(key)
+        }
+        for (const [key, { times, windowMs }] of rateLimits) {
+            if ((times.at(-1) ?? 0) <= current - windowMs) rateLimits.delete(key)
+        }
+    }
+
+    const timeline = (room: MemoryRoom) => [...room.messages.values()]
+
+    // Colours held by everyone with a seat except token
+    const takenColors = (room: MemoryRoom, token: string) => new Set([...room.members.keys()]
+        .filter((member) => member !== token)
+        .map((member) => room.participants.get(member)?.color))
+
+    const lowestFree = (taken: Set<number | undefined>) => {
+        let color = 0
+        while (taken.has(color)) color++
+        return color
+    }
+
+    const removeReactions = async (roomId: string, messageIds: string[]) => {
+        const room = getRoom(roomId)
+        if (!room) return
+        for (const [key, reaction] of room.reactions) {
+            if (messageIds.includes(reaction.messageId)) room.reactions.delete(key)
+        }
+    }
+
+    const removeMessages = async (roomId: string, ids: string[]) => {
+        const room = getRoom(roomId)
+        if (!room) return
+        for (const id of ids) {
+            room.messages.get(id)?.attachments?.forEach((attachment) => room.attachments.delete(attachment.id))
+            room.messages.delete(id)
+        }
+        await removeReactions(roomId, ids)
+    }
+
+    return {
+        createRoom: async (roomId, meta) => {
+            sweep()
+            rooms.set(roomId, {
+                meta: copy(meta),
+                expiresAt: now() + meta.ttlSeconds * 1000,
+                members: new Map(),
+                participants: new Map(),
+                presence: new Map(),
+                messages: new Map(),
+                seq: 0,
+                receipts: new Map(),
+                reactions: new Map(),
+                idempotency: new Map(),
+                kicked: new Set(),
+                invites: new Map(),
+                attachments: new Map(),
+                extensions: new Map(),
+                joinFailures: 0,
+                failuresResetAt: 0,
+                lockedUntil: 0,
+            })
+        },
+
+        getRoomMeta: async (roomId) => {
+            const room = getRoom(roomId)
+            return room ? copy(room.meta) : null
+        },
+
+        getRoomTtl: async (roomId) => {
+            const room = getRoom(roomId)
+            return room ? Math.ceil((room.expiresAt - now()) / 1000) : 0
+        },
+
+        destroyRoom: async (roomId) => {
+            rooms.delete(roomId)
+        },
+
+        setRoomLocked: async (roomId, locked) => {
+            const room = getRoom(roomId)
+            if (room) room.meta.locked = locked
+        },
+
+        extendRoom: async (roomId, seconds) => {
+            const room = getRoom(roomId)
+            if (!room) return 0
+
+            const cap = room.meta.createdAt + ROOM_MAX_LIFETIME_SECONDS * 1000
+            room.expiresAt = Math.max(room.expiresAt, Math.min(room.expiresAt + seconds * 1000, cap))
+            return Math.ceil((room.expiresAt - now()) / 1000)
+        },
+
+        proposeExtension: async (roomId, proposal) => {
+            getRoom(roomId)?.extensions.set(proposal.id, copy(proposal))
+        },
+
+        getExtension: async (roomId, id) => {
+            const proposal = getRoom(roomId)?.extensions.get(id)
+            return proposal && proposal.expiresAt > now() ? copy(proposal) : null
+        },
+
+        takeExtension: async (roomId, id) => {
+            const room = getRoom(roomId)
+            const proposal = room?.extensions.get(id)
+            if (!room || !proposal) return null
+            room.extensions.delete(id)
+            return proposal.expiresAt > now() ? copy(proposal) : null
+        },
+
+        getJoinLockout: async (roomId) => {
+            const room = getRoom(roomId)
+            return room ? Math.max(0, room.lockedUntil - now()) : 0
+        },
+
+        recordFailedJoin: async (roomId) => {
+            const room = getRoom(roomId)
+            if (!room) return 0
+
+            const current = now()
+            if (room.failuresResetAt <= current) {
+                room.joinFailures = 0
+                room.failuresResetAt = current + JOIN_ATTEMPTS.lockoutMs
+            }
+            room.joinFailures += 1
+            if (room.joinFailures < JOIN_ATTEMPTS.max) return 0
+
+            room.joinFailures = 0
+            room.failuresResetAt = 0
+            room.lockedUntil = current + JOIN_ATTEMPTS.lockoutMs
+            return JOIN_ATTEMPTS.lockoutMs
+        },
+
+        joinRoom: async (roomId, token) => {
+            const room = getRoom(roomId)
+            if (!room) return { result: "not-found", reclaimed: [], returning: null }
+            if (room.members.has(token)) {
+                room.members.set(token, now())
+                return { result: "joined", reclaimed: [], returning: null }
+            }
+
+            const current = now()
+            const reclaimed: string[] = []
+            if (room.members.size >= room.meta.maxParticipants) {
+                // Reclaim seats whose heartbeat stopped before giving up
+                for (const [member, lastSeen] of room.members) {
+                    if (lastSeen < current - SEAT_STALE_MS) {
+                        room.members.delete(member)
+                        reclaimed.push(member)
+                    }
+                }
+                if (room.members.size >= room.meta.maxParticipants) return { result: "full", reclaimed, returning: null }
+            }
+            room.members.set(token, current)
+
+            // Someone taking their seat back may find a newcomer got their colour meanwhile
+            let returning = room.participants.get(token) ?? null
+            const taken = takenColors(room, token)
+            if (returning && taken.has(returning.color)) {
+                returning = { ...returning, color: lowestFree(taken) }
+                room.participants.set(token, returning)
+            }
+            return { result: "joined", reclaimed, returning: returning && copy(returning) }
+        },
+
+        isMember: async (roomId, token) => {
+            return getRoom(roomId)?.members.has(token) ?? false
+        },
+
+        touchMember: async (roomId, token) => {
+            const room = getRoom(roomId)
+            if (!room?.members.has(token)) return false
+            room.members.set(token, now())
+            return true
+        },
+
+        leaveRoom: async (roomId, token) => {
+            getRoom(roomId)?.members.delete(token)
+        },
+
+        countMembers: async (roomId) => {
+            return getRoom(roomId)?.members.size ?? 0
+        },
+
+        kickParticipant: async (roomId, participantId) => {
+            const room = getRoom(roomId)
+            const token = room && [...room.participants.entries()].find(([, participant]) => participant.id === participantId)?.[0]
+            if (!room || !token) return false
+
+            room.kicked.add(token)
+            room.members.delete(token)
+            room.presence.set(token, "offline")
+            return true
+        },
+
+        isKicked: async (roomId, token) => {
+            return getRoom(roomId)?.kicked.has(token) ?? false
+        },
+
+        getParticipant: async (roomId, token) => {
+            const participant = getRoom(roomId)?.participants.get(token)
+            return participant ? copy(participant) : null
+        },
+
+        listParticipants: async (roomId) => {
+            const participants = [...(getRoom(roomId)?.participants.values() ?? [])]
+            return copy(participants.sort((a, b) => a.joinedAt - b.joinedAt))
+        },
+
+        registerParticipant: async (roomId, token, name) => {
+            const room = getRoom(roomId)
+            if (!room) return null
+
+            const existing = room.participants.get(token)
+            if (existing) return copy(existing)
+
+            const participant: Participant = { id: nanoid(10), name, joinedAt: now(), color: lowestFree(takenColors(room, token)) }
+            room.participants.set(token, participant)
+            return copy(participant)
+        },
+
+        renameParticipant: async (roomId, token, name) => {
+            const room = getRoom(roomId)
+            const existing = room?.participants.get(token)
+            if (!room || !existing) return null
+
+            const renamed: Participant = { ...existing, name }
+            room.participants.set(token, renamed)
+            return copy(renamed)
+        },
+
+        setPresence: async (roomId, token, status) => {
+            getRoom(roomId)?.presence.set(token, status)
+        },
+
+        listPresence: async (roomId) => {
+            const room = getRoom(roomId)
+            if (!room) return []
+
+            return [...room.participants.entries()].map(([token, participant]): Presence => ({
+                id: participant.id,
+                status: room.members.has(token) ? room.presence.get(token) ?? "online" : "offline",
+                lastSeen: room.members.get(token) ?? participant.joinedAt,
+            }))
+        },
+
+        acquireThrottle: async (key, windowMs) => {
+            const current = now()
+            const until = throttles.get(key)
+            if (until !== undefined && until > current) return false
+            throttles.set(key, current + windowMs)
+            return true
+        },
+
+        consumeRateLimit: async (key, limit, windowMs) => {
+            const current = now()
+            const times = (rateLimits.get(key)?.times ?? []).filter((time) => time > current - windowMs)
+            if (times.length >= limit) {
+                rateLimits.set(key, { times, windowMs })
+                return Math.max(1, times[0] + windowMs - current)
+            }
+            rateLimits.set(key, { times: [...times, current], windowMs })
+            return 0
+        },
+
+        appendMessage: async (roomId, draft) => {
+            const room = getRoom(roomId)
+            if (!room) {
+                throw new Error("Room not found")
+            }
+            room.seq += 1
+            const message: Message = copy({ ...draft, seq: room.seq })
+            room.messages.set(message.id, message)
+            return copy(message)
+        },
+
+        getMessage: async (roomId, id) => {
+            const message = getRoom(roomId)?.messages.get(id)
+            return message && isLive(message, now()) ? copy(message) : null
+        },
+
+        replaceMessage: async (roomId, message) => {
+            const room = getRoom(roomId)
+            if (!room?.messages.has(message.id)) return
+            room.messages.set(message.id, copy(message))
+        },
+
+        removeMessages,
+
+        takeExpiredMessages: async (roomId) => {
+            const room = getRoom(roomId)
+            if (!room) return []
+
+            const current = now()
+            const ids = timeline(room)
+                .filter((message) => message.expiresAt && message.expiresAt <= current)
+                .map((message) => message.id)
+            await removeMessages(roomId, ids)
+            return ids
+        },
+
+        listMessagePage: async (roomId, { before, limit }) => {
+            const room = getRoom(roomId)
+            if (!room) return { messages: [], nextCursor: null }
+
+            const older = before ? timeline(room).filter((message) => message.seq < before) : timeline(room)
+            const page = older.slice(-limit)
+            const hasMore = older.length > limit
+            return {
+                messages: copy(page.filter((message) => isLive(message, now()))),
+                nextCursor: hasMore && page.length > 0 ? page[0].seq : null,
+            }
+        },
+
+        listMessagesSince: async (roomId, sinceId, limit) => {
+            const room = getRoom(roomId)
+            const since = room?.messages.get(sinceId)
+            if (!room || !since) return null
+
+            const newer = timeline(room).filter((message) => message.seq > since.seq)
+            return {
+                messages: copy(newer.slice(0, limit).filter((message) => isLive(message, now()))),
+                hasMore: newer.length > limit,
+            }
+        },
+
+        claimClientId: async (roomId, clientId, messageId) => {
+            const room = getRoom(roomId)
+            if (!room) return null
+
+            const existing = room.idempotency.get(clientId)
+            if (existing) return existing
+            room.idempotency.set(clientId, messageId)
+            return null
+        },
+
+        releaseClientId: async (roomId, clientId) => {
+            getRoom(roomId)?.idempotency.delete(clientId)
+        },
+
+        putAttachment: async (roomId, attachment) => {
+            const room = getRoom(roomId)
+            if (!room) return false
+
+            const used = [...room.attachments.values()].reduce((total, stored) => total + stored.size, 0)
+            if (used + attachment.size > ATTACHMENT_LIMITS.perRoomBytes) return false
+            room.attachments.set(attachment.id, copy(attachment))
+            return true
+        },
+
+        getAttachment: async (roomId, id) => {
+            const attachment = getRoom(roomId)?.attachments.get(id)
+            return attachment ? copy(attachment) : null
+        },
+
+        bindAttachments: async (roomId, ids, messageId) => {
+            const room = getRoom(roomId)
+            if (!room || new Set(ids).size !== ids.length) return false
+
+            const files = ids.map((id) => room.attachments.get(id))
+            if (files.some((file) => !file || file.messageId)) return false
+            files.forEach((file) => file!.messageId = messageId)
+            return true
+        },
+
+        removeAttachments: async (roomId, ids) => {
+            const room = getRoom(roomId)
+            ids.forEach((id) => room?.attachments.delete(id))
+        },
+
+        createInvite: async (roomId, invite) => {
+            getRoom(roomId)?.invites.set(invite.code, copy(invite))
+        },
+
+        getInvite: async (roomId, code) => {
+            const invite = getRoom(roomId)?.invites.get(code)
+            return invite && isOutstanding(invite, now()) ? copy(invite) : null
+        },
+
+        listInvites: async (roomId) => {
+            const invites = [...(getRoom(roomId)?.invites.values() ?? [])]
+            return copy(invites.filter((invite) => isOutstanding(invite, now())).sort((a, b) => a.createdAt - b.createdAt))
+        },
+
+        consumeInvite: async (roomId, code) => {
+            const room = getRoom(roomId)
+            const invite = room?.invites.get(code)
+            if (!room || !invite) return false
+            if (!isOutstanding(invite, now())) {
+                room.invites.delete(code)
+                return false
+            }
+            invite.uses += 1
+            if (invite.uses >= invite.maxUses) room.invites.delete(code)
+            return true
+        },
+
+        revokeInvite: async (roomId, code) => {
+            return getRoom(roomId)?.invites.delete(code) ?? false
+        },
+
+        listReactions: async (roomId) => {
+            return copy([...(getRoom(roomId)?.reactions.values() ?? [])])
+        },
+
+        setReaction: async (roomId, reaction, reacted) => {
+            const room = getRoom(roomId)
+            if (!room) return false
+
+            const key = reactionKey(reaction)
+            if (room.reactions.has(key) === reacted) return false
+            if (reacted) {
+                room.reactions.set(key, copy(reaction))
+            } else {
+                room.reactions.delete(key)
+            }
+            return true
+        },
+
+        removeReactions,
+
+        listReceipts: async (roomId) => {
+            return copy([...(getRoom(roomId)?.receipts.values() ?? [])])
+        },
+
+        advanceReceipt: async (roomId, participantId, message, state) => {
+            const room = getRoom(roomId)
+            if (!room) return null
+
+            const receipt = nextReceipt(room.receipts.get(participantId) ?? null, participantId, message, state)
+            if (!receipt) return null
+            room.receipts.set(participantId, receipt)
+            return copy(receipt)
+        },
+    }
+}
@@ -0,0 +1,31 @@
+import type { Message, Reaction, Receipt } from "../realtime"
+import type { Invite } from "./types"
+
+// Expired messages never come back, even if a prune hasn't removed them yet
+export const isLive = (message: Message, now = Date.now()) => !message.expiresAt || message.expiresAt > now
+
+export const isOutstanding = (invite: Invite, now = Date.now()) => invite.expiresAt > now && invite.uses < invite.maxUses
+
+// One entry per participant, message and emoji - message ids never contain a colon, so all
+// of a message's reactions share the `${messageId}:` prefix
+export const reactionKey = (reaction: Reaction) => `${reaction.messageId}:${reaction.emoji}:${reaction.participantId}`
+
+export const nextReceipt = (
+    existing: Receipt | null,
+    participantId: string,
+    message: Message,
+    state: "delivered" | "read",
+): Receipt | null => {
+    const current = existing ?? { participantId, deliveredSeq: 0, readSeq: 0 }
+    const receipt: Receipt = { ...current }
+    // Reading something implies it was delivered
+    receipt.deliveredSeq = Math.max(current.deliveredSeq, message.seq)
+    if (state === "read" && message.seq > current.readSeq) {
+        receipt.readSeq = message.seq
+        receipt.readMessageId = message.id
+    }
+    if (receipt.deliveredSeq === current.deliveredSeq && receipt.readSeq === current.readSeq) {
+        return null
+    }
+    return receipt
+}
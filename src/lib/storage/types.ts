@@ -0,0 +1,148 @@
+import type { Attachment, Message, Participant, Presence, Reaction, Receipt } from "../realtime"
+
+export type RoomMeta = {
+    createdAt: number
+    ttlSeconds: number
+    maxParticipants: number
+    // scrypt hash of the room's passphrase - see lib/passphrase.ts
+    passphraseHash?: string
+    // Token issued to whoever created the room - rooms from before owners have none
+    ownerToken?: string
+    // Locked rooms only let back in tokens that already had a seat
+    locked?: boolean
+    // Whether participants may export a transcript - rooms from before this was a choice allow it
+    allowExport?: boolean
+}
+
+export type JoinResult = "joined" | "full" | "not-found"
+
+// Extra time one participant asked for - someone else has to accept it
+export type ExtensionProposal = {
+    id: string
+    proposerId: string
+    seconds: number
+    expiresAt: number
+}
+
+// A code newcomers present to get a seat - see proxy.ts
+export type Invite = {
+    code: string
+    // Participant id of whoever minted it, null if they hadn't registered a name yet
+    createdBy: string | null
+    createdAt: number
+    // Never later than the room's own expiry
+    expiresAt: number
+    maxUses: number
+    uses: number
+}
+
+// An uploaded file, as ciphertext - only whoever uploaded it can attach it to a message
+export type StoredAttachment = Pick<Message, "ciphertext" | "nonce" | "version"> & Pick<Attachment, "id" | "mimeType" | "size"> & {
+    token: string
+    createdAt: number
+    // The one message it went out with - set once it was sent
+    messageId?: string
+}
+
+export type MessagePage = {
+    messages: Message[]
+    // seq to pass as `before` for the page before this one - null at the start of the room
+    nextCursor: number | null
+}
+
+// Everything the app keeps about a room. Every piece of a room lives exactly as long as
+// the room itself, and the remaining lifetime is always reported in whole seconds.
+export type Store = {
+    createRoom: (roomId: string, meta: RoomMeta) => Promise<void>
+    getRoomMeta: (roomId: string) => Promise<RoomMeta | null>
+    // Remaining lifetime in seconds, 0 once the room is gone
+    getRoomTtl: (roomId: string) => Promise<number>
+    destroyRoom: (roomId: string) => Promise<void>
+    setRoomLocked: (roomId: string, locked: boolean) => Promise<void>
+    // Adds to the lifetime of the room and everything in it at once, never past
+    // ROOM_MAX_LIFETIME_SECONDS after creation. Returns the new lifetime, 0 once the room is gone.
+    extendRoom: (roomId: string, seconds: number) => Promise<number>
+    // Proposals disappear on their own once they expire
+    proposeExtension: (roomId: string, proposal: ExtensionProposal) => Promise<void>
+    getExtension: (roomId: string, id: string) => Promise<ExtensionProposal | null>
+    // Removes the proposal and returns it - only one caller ever gets it
+    takeExtension: (roomId: string, id: string) => Promise<ExtensionProposal | null>
+    // Wrong passphrases - JOIN_ATTEMPTS.max of them lock the room's join for JOIN_ATTEMPTS.lockoutMs.
+    // Both return the remaining lockout in ms, 0 when attempts are allowed.
+    getJoinLockout: (roomId: string) => Promise<number>
+    recordFailedJoin: (roomId: string) => Promise<number>
+
+    // Seats - a token holds one until it leaves or stops heartbeating for SEAT_STALE_MS.
+    // Joining must be atomic so two people can't both take the last seat. reclaimed lists the
+    // tokens whose stale seats were freed along the way; returning is the participant taking
+    // their seat back, with a new colour if someone else got theirs meanwhile.
+    joinRoom: (roomId: string, token: string) => Promise<{ result: JoinResult, reclaimed: string[], returning: Participant | null }>
+    isMember: (roomId: string, token: string) => Promise<boolean>
+    // Refreshes the seat's heartbeat - false when the seat was already reclaimed or left
+    touchMember: (roomId: string, token: string) => Promise<boolean>
+    leaveRoom: (roomId: string, token: string) => Promise<void>
+    countMembers: (roomId: string) => Promise<number>
+    // Takes the participant's seat away for good - their token can't join again. False when
+    // there is no such participant.
+    kickParticipant: (roomId: string, participantId: string) => Promise<boolean>
+    isKicked: (roomId: string, token: string) => Promise<boolean>
+
+    getParticipant: (roomId: string, token: string) => Promise<Participant | null>
+    listParticipants: (roomId: string) => Promise<Participant[]>
+    // Registers the token's display name once - later calls return the existing identity
+    registerParticipant: (roomId: string, token: string, name: string) => Promise<Participant | null>
+    renameParticipant: (roomId: string, token: string, name: string) => Promise<Participant | null>
+    setPresence: (roomId: string, token: string, status: Presence["status"]) => Promise<void>
+    listPresence: (roomId: string) => Promise<Presence[]>
+    // True at most once per windowMs for a key - used to throttle chatty realtime events
+    acquireThrottle: (key: string, windowMs: number) => Promise<boolean>
+    // Counts a request against a sliding window of `limit` requests per windowMs. Returns 0
+    // when it fits, otherwise how many ms until the oldest request leaves the window.
+    consumeRateLimit: (key: string, limit: number, windowMs: number) => Promise<number>
+
+    appendMessage: (roomId: string, draft: Omit<Message, "seq">) => Promise<Message>
+    // Null once the message is removed - or once its own lifetime ran out, even before
+    // takeExpiredMessages has cleared it away
+    getMessage: (roomId: string, id: string) => Promise<Message | null>
+    // Replaces an existing message - never creates one that isn't on the timeline
+    replaceMessage: (roomId: string, message: Message) => Promise<void>
+    // Also drops the files attached to them and their reactions
+    removeMessages: (roomId: string, ids: string[]) => Promise<void>
+    // Removes every message whose own lifetime has run out and returns their ids
+    takeExpiredMessages: (roomId: string) => Promise<string[]>
+    // Up to `limit` messages older than `before` (or the newest ones), in chronological order
+    listMessagePage: (roomId: string, options: { before?: number, limit: number }) => Promise<MessagePage>
+    // Up to `limit` messages after the one with `sinceId` - null when that message is gone
+    listMessagesSince: (roomId: string, sinceId: string, limit: number) => Promise<{ messages: Message[], hasMore: boolean } | null>
+    // Maps a client-generated send id to the message it created. Returns null when the id
+    // is new, otherwise the id of the message it already belongs to.
+    claimClientId: (roomId: string, clientId: string, messageId: string) => Promise<string | null>
+    releaseClientId: (roomId: string, clientId: string) => Promise<void>
+
+    // False when the room is gone or its uploads would go over ATTACHMENT_LIMITS.perRoomBytes
+    putAttachment: (roomId: string, attachment: StoredAttachment) => Promise<boolean>
+    getAttachment: (roomId: string, id: string) => Promise<StoredAttachment | null>
+    // Marks the files as sent with messageId, all or none - false when any of them is gone,
+    // listed twice or already went out with a message
+    bindAttachments: (roomId: string, ids: string[], messageId: string) => Promise<boolean>
+    // Frees the room's upload budget too
+    removeAttachments: (roomId: string, ids: string[]) => Promise<void>
+
+    createInvite: (roomId: string, invite: Invite) => Promise<void>
+    // Invites that are neither expired nor used up - null / left out otherwise
+    getInvite: (roomId: string, code: string) => Promise<Invite | null>
+    listInvites: (roomId: string) => Promise<Invite[]>
+    // Uses the invite up once, atomically - false when it was no longer valid
+    consumeInvite: (roomId: string, code: string) => Promise<boolean>
+    revokeInvite: (roomId: string, code: string) => Promise<boolean>
+
+    listReactions: (roomId: string) => Promise<Reaction[]>
+    // Adds or takes back one participant's emoji - false when it was already that way
+    setReaction: (roomId: string, reaction: Reaction, reacted: boolean) => Promise<boolean>
+    removeReactions: (roomId: string, messageIds: string[]) => Promise<void>
+
+    listReceipts: (roomId: string) => Promise<Receipt[]>
+    // Moves a participant's delivered/read marks forward to the given message - never back.
+    // Returns null when nothing changed.
+    advanceReceipt: (roomId: string, participantId: string, message: Message, state: "delivered" | "read") => Promise<Receipt | null>
+}
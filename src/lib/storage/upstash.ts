@@ -0,0 +1,782 @@
+import type { Redis } from "@upstash/redis"
+import { nanoid } from "nanoid"
+import type { Message, Participant, Presence, Reaction, Receipt } from "../realtime"
+import { ATTACHMENT_LIMITS, JOIN_ATTEMPTS, ROOM_MAX_LIFETIME_SECONDS, ROOM_PARTICIPANTS, ROOM_TTL_SECONDS, SEAT_STALE_MS } from "../room-limits"
+import { isLive, isOutstanding, nextReceipt, reactionKey } from "./shared"
+import type { ExtensionProposal, Invite, RoomMeta, Store, StoredAttachment } from "./types"
+
+// Key layout - every key is expired together with meta:{roomId}
+//
+// meta:{roomId}          hash of createdAt, ttlSeconds, maxParticipants, passphraseHash, ownerToken, locked,
+//                        allowExport
+// members:{roomId}       sorted set of token -> last heartbeat (ms)
+// participants:{roomId}  hash of token -> participant JSON
+// presence:{roomId}      hash of token -> presence status
+// kicked:{roomId}        set of tokens the owner removed
+// messages:{roomId}      hash of message id -> message JSON
+// timeline:{roomId}      sorted set of message id ordered by a per-room sequence (seq:{roomId})
+// expiry:{roomId}        sorted set of message id -> expiresAt, for messages with their own lifetime
+// receipts:{roomId}      hash of participant id -> receipt JSON
+// reactions:{roomId}     hash of messageId:emoji:participantId -> reaction JSON
+// idempotency:{roomId}   hash of token:client send id -> message id
+// invites:{roomId}       hash of invite code -> invite JSON, removed once used up
+// attachments:{roomId}   hash of attachment id -> encrypted file JSON
+// attachment-bytes:{roomId} total size of attachments:{roomId}, checked against ATTACHMENT_LIMITS.perRoomBytes
+//
+// These expire on their own instead, after at most JOIN_ATTEMPTS.lockoutMs
+//
+// join-failures:{roomId} count of wrong passphrases in the current window
+// join-lockout:{roomId}  set while the room refuses passphrase attempts
+// extension:{roomId}:{id} proposal JSON, for EXTENSION_PROPOSAL_MS at most
+
+type RawRoomMeta = {
+    createdAt?: unknown
+    ttlSeconds?: unknown
+    maxParticipants?: unknown
+    passphraseHash?: unknown
+    ownerToken?: unknown
+    locked?: unknown
+    allowExport?: unknown
+}
+
+const parseNumber = (value: unknown, fallback: number) => {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Values come back either as JSON strings or already parsed by the client
+const parseJson = <T>(label: string, isValid: (value: object) => boolean) => (raw: unknown): T | null => {
+    if (!raw) return null
+    try {
+        const parsed = typeof raw === "string" ? JSON.parse(raw) : raw
+        return parsed && typeof parsed === "object" && isValid(parsed) ? parsed as T : null
+    } catch (parseError) {
+        console.error(`Error parsing ${label}:`, parseError)
+        return null
+    }
+}
+
+const parseParticipant = parseJson<Participant>("participant", (value) => "id" in value)
+const parseMessage = parseJson<Message>("message", () => true)
+const parseReceipt = parseJson<Receipt>("receipt", () => true)
+const parseReaction = parseJson<Reaction>("reaction", (value) => "messageId" in value)
+const parseInvite = parseJson<Invite>("invite", (value) => "code" in value)
+const parseExtension = parseJson<ExtensionProposal>("extension", (value) => "id" in value)
+const parseAttachment = parseJson<StoredAttachment>("attachment", (value) => "id" in value)
+
+// Everything that lives exactly as long as the room, meta first
+const lifetimeKeys = (roomId: string) => [
+    `meta:${roomId}`,
+    `members:${roomId}`,
+    `participants:${roomId}`,
+    `presence:${roomId}`,
+    `kicked:${roomId}`,
+    `messages:${roomId}`,
+    `timeline:${roomId}`,
+    `seq:${roomId}`,
+    `expiry:${roomId}`,
+    `receipts:${roomId}`,
+    `reactions:${roomId}`,
+    `idempotency:${roomId}`,
+    `invites:${roomId}`,
+    `attachments:${roomId}`,
+    `attachment-bytes:${roomId}`,
+]
+
+const roomKeys = (roomId: string) => [
+    // Legacy keys from before rooms had their own hashes
+    roomId,
+    `history:${roomId}`,
+    ...lifetimeKeys(roomId),
+    `join-failures:${roomId}`,
+    `join-lockout:${roomId}`,
+]
+
+// Lua for the colours held by everyone with a seat except one token, and the lowest one
+// that's still free - shared by the scripts that hand colours out
+const takenColorsLua = `
+local function takenColors(participants, members, token)
+    local taken = {}
+    for _, member in ipairs(redis.call("ZRANGE", members, 0, -1)) do
+        local raw = member ~= token and redis.call("HGET", participants, member)
+        if raw then
+            local color = cjson.decode(raw).color
+            if color then
+                taken[color] = true
+            end
+        end
+    end
+    return taken
+end
+
+local function lowestFree(taken)
+    local color = 0
+    while taken[color] do
+        color = color + 1
+    end
+    return color
+end
+`
+
+export const createUpstashStore = (redis: Redis): Store => {
+    // The capacity check, stale seat reclamation and the insert all run inside one script
+    // so two people opening the link at the same moment can't both take the last seat.
+    // Someone taking their seat back gets a free colour if a newcomer was given theirs.
+    // Returns -1 (not found), 0 (full) or 1 (joined), the returning participant's JSON (or
+    // ""), then any reclaimed tokens.
+    //
+    // KEYS: meta, members, participants
+    // ARGV: token, now, stale cutoff, default capacity
+    const joinScript = redis.createScript<[number, unknown, ...string[]]>(`${takenColorsLua}
+if redis.call("EXISTS", KEYS[1]) == 0 then
+    return {-1, ""}
+end
+if redis.call("ZSCORE", KEYS[2], ARGV[1]) then
+    redis.call("ZADD", KEYS[2], ARGV[2], ARGV[1])
+    return {1, ""}
+end
+local capacity = tonumber(redis.call("HGET", KEYS[1], "maxParticipants")) or tonumber(ARGV[4])
+local result = {1, ""}
+if redis.call("ZCARD", KEYS[2]) >= capacity then
+    for _, member in ipairs(redis.call("ZRANGEBYSCORE", KEYS[2], "-inf", "(" .. ARGV[3])) do
+        redis.call("ZREM", KEYS[2], member)
+        table.insert(result, member)
+    end
+    if redis.call("ZCARD", KEYS[2]) >= capacity then
+        result[1] = 0
+        return result
+    end
+end
+redis.call("ZADD", KEYS[2], ARGV[2], ARGV[1])
+local ttl = redis.call("TTL", KEYS[1])
+if ttl > 0 then
+    redis.call("EXPIRE", KEYS[2], ttl)
+end
+local raw = redis.call("HGET", KEYS[3], ARGV[1])
+if raw then
+    local participant = cjson.decode(raw)
+    local taken = takenColors(KEYS[3], KEYS[2], ARGV[1])
+    if participant.color == nil or taken[participant.color] then
+        participant.color = lowestFree(taken)
+        raw = cjson.encode(participant)
+        redis.call("HSET", KEYS[3], ARGV[1], raw)
+    end
+    result[2] = raw
+end
+return result
+`)
+
+    // Sliding window log - one sorted set entry per request, scored by its time.
+    //
+    // KEYS: window
+    // ARGV: now, window (ms), limit, unique member
+    const rateLimitScript = redis.createScript<number>(`
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+if redis.call("ZCARD", KEYS[1]) < tonumber(ARGV[3]) then
+    redis.call("ZADD", KEYS[1], now, ARGV[4])
+    redis.call("PEXPIRE", KEYS[1], window)
+    return 0
+end
+local oldest = redis.call("ZRANGE", KEYS[1], 0, 0, "WITHSCORES")
+return math.max(1, tonumber(oldest[2]) + window - now)
+`)
+
+    // Counts a wrong passphrase and starts the lockout once there were too many
+    //
+    // KEYS: failures, lockout
+    // ARGV: max attempts, lockout (ms)
+    const failedJoinScript = redis.createScript<number>(`
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then
+    redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+if count >= tonumber(ARGV[1]) then
+    redis.call("SET", KEYS[2], "1", "PX", ARGV[2])
+    redis.call("DEL", KEYS[1])
+    return tonumber(ARGV[2])
+end
+return 0
+`)
+
+    // Every key of the room gets the same new lifetime in one step, so none of them can
+    // outlive meta or vanish before it
+    //
+    // KEYS: meta, then every other key that expires with the room
+    // ARGV: extra seconds, max lifetime (s), now (ms)
+    const extendScript = redis.createScript<number>(`
+local ttl = redis.call("TTL", KEYS[1])
+if ttl <= 0 then
+    return 0
+end
+local createdAt = tonumber(redis.call("HGET", KEYS[1], "createdAt")) or tonumber(ARGV[3])
+local cap = math.floor((createdAt + tonumber(ARGV[2]) * 1000 - tonumber(ARGV[3])) / 1000)
+local extended = math.min(ttl + tonumber(ARGV[1]), cap)
+if extended <= ttl then
+    return ttl
+end
+for _, key in ipairs(KEYS) do
+    if redis.call("TTL", key) > 0 then
+        redis.call("EXPIRE", key, extended)
+    end
+end
+return extended
+`)
+
+    // Checking and counting a use must be one step, or a single-use invite could seat two people
+    //
+    // KEYS: invites
+    // ARGV: code, now
+    const consumeInviteScript = redis.createScript<number>(`
+local raw = redis.call("HGET", KEYS[1], ARGV[1])
+if not raw then
+    return 0
+end
+local invite = cjson.decode(raw)
+if invite.expiresAt <= tonumber(ARGV[2]) or invite.uses >= invite.maxUses then
+    redis.call("HDEL", KEYS[1], ARGV[1])
+    return 0
+end
+invite.uses = invite.uses + 1
+if invite.uses >= invite.maxUses then
+    redis.call("HDEL", KEYS[1], ARGV[1])
+else
+    redis.call("HSET", KEYS[1], ARGV[1], cjson.encode(invite))
+end
+return 1
+`)
+
+    // A write racing the room's expiry would otherwise leave keys behind that never expire -
+    // they get the room's remaining lifetime, or are removed once the room is gone
+    //
+    // KEYS: meta, then the keys written
+    const expireWithRoomScript = redis.createScript<number>(`
+local ttl = redis.call("TTL", KEYS[1])
+for i = 2, #KEYS do
+    if ttl > 0 then
+        redis.call("EXPIRE", KEYS[i], ttl)
+    elseif ttl == -2 then
+        redis.call("DEL", KEYS[i])
+    end
+end
+return ttl
+`)
+
+    // Never recreates the meta of a room that's already gone - it would have no TTL
+    //
+    // KEYS: meta
+    // ARGV: locked ("1" or "0")
+    const setLockedScript = redis.createScript<number>(`
+if redis.call("EXISTS", KEYS[1]) == 0 then
+    return 0
+end
+redis.call("HSET", KEYS[1], "locked", ARGV[1])
+return 1
+`)
+
+    // An edit or burn racing a removal must not bring the message back - and once the room
+    // has expired, must not leave behind a messages hash without a TTL
+    //
+    // KEYS: messages
+    // ARGV: id, message JSON
+    const replaceMessageScript = redis.createScript<number>(`
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 0 then
+    return 0
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+return 1
+`)
+
+    // A newcomer takes the lowest colour nobody holding a seat has, so two people could pick
+    // the same one if this weren't a single step. Returns whichever participant was stored.
+    //
+    // KEYS: participants, members
+    // ARGV: token, participant JSON without a colour
+    const registerParticipantScript = redis.createScript<unknown>(`${takenColorsLua}
+local existing = redis.call("HGET", KEYS[1], ARGV[1])
+if existing then
+    return existing
+end
+local participant = cjson.decode(ARGV[2])
+participant.color = lowestFree(takenColors(KEYS[1], KEYS[2], ARGV[1]))
+local encoded = cjson.encode(participant)
+redis.call("HSET", KEYS[1], ARGV[1], encoded)
+return encoded
+`)
+
+    // The size check and the upload are one step, or parallel uploads could all squeeze in
+    // under the room's budget
+    //
+    // KEYS: meta, attachments, attachment bytes
+    // ARGV: id, attachment JSON, size, room budget
+    const putAttachmentScript = redis.createScript<number>(`
+local ttl = redis.call("TTL", KEYS[1])
+if ttl <= 0 then
+    return 0
+end
+local used = tonumber(redis.call("GET", KEYS[3])) or 0
+if used + tonumber(ARGV[3]) > tonumber(ARGV[4]) then
+    return 0
+end
+redis.call("HSET", KEYS[2], ARGV[1], ARGV[2])
+redis.call("INCRBY", KEYS[3], ARGV[3])
+redis.call("EXPIRE", KEYS[2], ttl)
+redis.call("EXPIRE", KEYS[3], ttl)
+return 1
+`)
+
+    // Checked and marked in one step, or two sends racing could both attach the same file
+    //
+    // KEYS: attachments
+    // ARGV: message id, then attachment ids
+    const bindAttachmentsScript = redis.createScript<number>(`
+local files = {}
+for i = 2, #ARGV do
+    local raw = redis.call("HGET", KEYS[1], ARGV[i])
+    if not raw or files[ARGV[i]] then
+        return 0
+    end
+    local file = cjson.decode(raw)
+    if file.messageId then
+        return 0
+    end
+    file.messageId = ARGV[1]
+    files[ARGV[i]] = file
+end
+for id, file in pairs(files) do
+    redis.call("HSET", KEYS[1], id, cjson.encode(file))
+end
+return 1
+`)
+
+    // KEYS: attachments, attachment bytes
+    // ARGV: attachment ids
+    const removeAttachmentsScript = redis.createScript<number>(`
+local freed = 0
+for _, id in ipairs(ARGV) do
+    local raw = redis.call("HGET", KEYS[1], id)
+    if raw then
+        freed = freed + cjson.decode(raw).size
+        redis.call("HDEL", KEYS[1], id)
+    end
+end
+if freed > 0 and redis.call("EXISTS", KEYS[2]) == 1 then
+    redis.call("DECRBY", KEYS[2], freed)
+end
+return freed
+`)
+
+    const getRoomTtl = async (roomId: string) => {
+        const ttl = await redis.ttl(`meta:${roomId}`)
+        return ttl > 0 ? ttl : 0
+    }
+
+    // Gives a key written after the room was created the room's remaining lifetime
+    const expireWithRoom = async (roomId: string, ...keys: string[]) => {
+        await expireWithRoomScript.exec([`meta:${roomId}`, ...keys], [])
+    }
+
+    const isMember = async (roomId: string, token: string) => {
+        const score = await redis.zscore(`members:${roomId}`, token)
+        return score !== null
+    }
+
+    const getParticipant = async (roomId: string, token: string) => {
+        return parseParticipant(await redis.hget(`participants:${roomId}`, token))
+    }
+
+    const getParticipantsByToken = async (roomId: string) => {
+        const raw = await redis.hgetall<Record<string, unknown>>(`participants:${roomId}`)
+        const byToken = new Map<string, Participant>()
+        for (const [token, value] of Object.entries(raw ?? {})) {
+            const participant = parseParticipant(value)
+            if (participant) byToken.set(token, participant)
+        }
+        return byToken
+    }
+
+    const getMessage = async (roomId: string, id: string) => {
+        const message = parseMessage(await redis.hget(`messages:${roomId}`, id))
+        return message && isLive(message) ? message : null
+    }
+
+    const getMessages = async (roomId: string, ids: string[]) => {
+        if (ids.length === 0) return []
+        const raw = await redis.hmget<Record<string, unknown>>(`messages:${roomId}`, ...ids)
+        return ids
+            .map((id) => parseMessage(raw?.[id]))
+            .filter((message): message is Message => message !== null)
+    }
+
+    const removeAttachments = async (roomId: string, ids: string[]) => {
+        if (ids.length === 0) return
+        await removeAttachmentsScript.exec([`attachments:${roomId}`, `attachment-bytes:${roomId}`], ids)
+    }
+
+    const removeReactions = async (roomId: string, messageIds: string[]) => {
+        if (messageIds.length === 0) return
+        const keys = await redis.hkeys(`reactions:${roomId}`)
+        const doomed = keys.filter((key) => messageIds.some((id) => key.startsWith(`${id}:`)))
+        if (doomed.length > 0) {
+            await redis.hdel(`reactions:${roomId}`, ...doomed)
+        }
+    }
+
+    const removeMessages = async (roomId: string, ids: string[]) => {
+        if (ids.length === 0) return
+        const stored = await redis.hmget<Record<string, unknown>>(`messages:${roomId}`, ...ids)
+        const attachmentIds = Object.values(stored ?? {})
+            .flatMap((raw) => parseMessage(raw)?.attachments?.map((attachment) => attachment.id) ?? [])
+        await Promise.all([
+            removeAttachments(roomId, attachmentIds),
+            removeReactions(roomId, ids),
+            redis.hdel(`messages:${roomId}`, ...ids),
+            redis.zrem(`timeline:${roomId}`, ...ids),
+            redis.zrem(`expiry:${roomId}`, ...ids),
+        ])
+    }
+
+    return {
+        createRoom: async (roomId, meta) => {
+            await redis.hset(`meta:${roomId}`, {
+                createdAt: meta.createdAt.toString(),
+                ttlSeconds: meta.ttlSeconds.toString(),
+                maxParticipants: meta.maxParticipants.toString(),
+                ...(meta.passphraseHash ? { passphraseHash: meta.passphraseHash } : {}),
+                ...(meta.ownerToken ? { ownerToken: meta.ownerToken } : {}),
+                locked: meta.locked ? "1" : "0",
+                allowExport: meta.allowExport === false ? "0" : "1",
+            })
+            //auto deletion part
+            await redis.expire(`meta:${roomId}`, meta.ttlSeconds)
+        },
+
+        getRoomMeta: async (roomId): Promise<RoomMeta | null> => {
+            const meta = await redis.hgetall<RawRoomMeta>(`meta:${roomId}`)
+            if (!meta) return null
+
+            return {
+                createdAt: parseNumber(meta.createdAt, Date.now()),
+                // Rooms created before these were configurable fall back to the old fixed values
+                ttlSeconds: parseNumber(meta.ttlSeconds, ROOM_TTL_SECONDS.default),
+                maxParticipants: parseNumber(meta.maxParticipants, ROOM_PARTICIPANTS.default),
+                passphraseHash: typeof meta.passphraseHash === "string" ? meta.passphraseHash : undefined,
+                ownerToken: typeof meta.ownerToken === "string" ? meta.ownerToken : undefined,
+                // The client may hand back "1" as a number
+                locked: String(meta.locked) === "1",
+                // Missing on older rooms, which allowed exports
+                allowExport: String(meta.allowExport) !== "0",
+            }
+        },
+
+        getRoomTtl,
+
+        destroyRoom: async (roomId) => {
+            await Promise.all(roomKeys(roomId).map((key) => redis.del(key)))
+        },
+
+        setRoomLocked: async (roomId, locked) => {
+            await setLockedScript.exec([`meta:${roomId}`], [locked ? "1" : "0"])
+        },
+
+        extendRoom: async (roomId, seconds) => {
+            return extendScript.exec(
+                lifetimeKeys(roomId),
+                [seconds.toString(), ROOM_MAX_LIFETIME_SECONDS.toString(), Date.now().toString()],
+            )
+        },
+
+        proposeExtension: async (roomId, proposal) => {
+            await redis.set(`extension:${roomId}:${proposal.id}`, JSON.stringify(proposal), {
+                px: Math.max(1, proposal.expiresAt - Date.now()),
+            })
+        },
+
+        getExtension: async (roomId, id) => {
+            return parseExtension(await redis.get(`extension:${roomId}:${id}`))
+        },
+
+        takeExtension: async (roomId, id) => {
+            return parseExtension(await redis.getdel(`extension:${roomId}:${id}`))
+        },
+
+        getJoinLockout: async (roomId) => {
+            const ttl = await redis.pttl(`join-lockout:${roomId}`)
+            return ttl > 0 ? ttl : 0
+        },
+
+        recordFailedJoin: async (roomId) => {
+            return failedJoinScript.exec(
+                [`join-failures:${roomId}`, `join-lockout:${roomId}`],
+                [JOIN_ATTEMPTS.max.toString(), JOIN_ATTEMPTS.lockoutMs.toString()],
+            )
+        },
+
+        joinRoom: async (roomId, token) => {
+            const now = Date.now()
+            const [outcome, returning, ...reclaimed] = await joinScript.exec(
+                [`meta:${roomId}`, `members:${roomId}`, `participants:${roomId}`],
+                [token, now.toString(), (now - SEAT_STALE_MS).toString(), ROOM_PARTICIPANTS.default.toString()],
+            )
+            if (outcome === -1) return { result: "not-found", reclaimed: [], returning: null }
+            return {
+                result: outcome === 1 ? "joined" : "full",
+                reclaimed: reclaimed.map(String),
+                returning: parseParticipant(returning),
+            }
+        },
+
+        isMember,
+
+        touchMember: async (roomId, token) => {
+            if (!(await isMember(roomId, token))) return false
+            // XX so a seat removed in the meantime is never re-created by a heartbeat
+            await redis.zadd(`members:${roomId}`, { xx: true }, { score: Date.now(), member: token })
+            return true
+        },
+
+        leaveRoom: async (roomId, token) => {
+            await redis.zrem(`members:${roomId}`, token)
+        },
+
+        countMembers: async (roomId) => {
+            return redis.zcard(`members:${roomId}`)
+        },
+
+        kickParticipant: async (roomId, participantId) => {
+            const byToken = await getParticipantsByToken(roomId)
+            const token = [...byToken.entries()].find(([, participant]) => participant.id === participantId)?.[0]
+            if (!token) return false
+
+            await Promise.all([
+                redis.sadd(`kicked:${roomId}`, token),
+                redis.zrem(`members:${roomId}`, token),
+                redis.hset(`presence:${roomId}`, { [token]: "offline" }),
+            ])
+            await expireWithRoom(roomId, `kicked:${roomId}`, `presence:${roomId}`)
+            return true
+        },
+
+        isKicked: async (roomId, token) => {
+            return (await redis.sismember(`kicked:${roomId}`, token)) === 1
+        },
+
+        getParticipant,
+
+        listParticipants: async (roomId) => {
+            const byToken = await getParticipantsByToken(roomId)
+            return [...byToken.values()].sort((a, b) => a.joinedAt - b.joinedAt)
+        },
+
+        registerParticipant: async (roomId, token, name) => {
+            const draft: Omit<Participant, "color"> = { id: nanoid(10), name, joinedAt: Date.now() }
+            const stored = await registerParticipantScript.exec(
+                [`participants:${roomId}`, `members:${roomId}`],
+                [token, JSON.stringify(draft)],
+            )
+            await expireWithRoom(roomId, `participants:${roomId}`)
+            return parseParticipant(stored)
+        },
+
+        renameParticipant: async (roomId, token, name) => {
+            const existing = await getParticipant(roomId, token)
+            if (!existing) return null
+
+            const renamed: Participant = { ...existing, name }
+            await redis.hset(`participants:${roomId}`, { [token]: JSON.stringify(renamed) })
+            await expireWithRoom(roomId, `participants:${roomId}`)
+            return renamed
+        },
+
+        setPresence: async (roomId, token, status) => {
+            await redis.hset(`presence:${roomId}`, { [token]: status })
+            await expireWithRoom(roomId, `presence:${roomId}`)
+        },
+
+        // Last seen comes from the seat heartbeat, so a tab that vanished without saying
+        // goodbye ages out on its own
+        listPresence: async (roomId) => {
+            const [byToken, statuses, seats] = await Promise.all([
+                getParticipantsByToken(roomId),
+                redis.hgetall<Record<string, Presence["status"]>>(`presence:${roomId}`),
+                redis.zrange<(string | number)[]>(`members:${roomId}`, 0, -1, { withScores: true }),
+            ])
+
+            const lastSeen = new Map<string, number>()
+            for (let i = 0; i < seats.length; i += 2) {
+                lastSeen.set(String(seats[i]), Number(seats[i + 1]))
+            }
+
+            return [...byToken.entries()].map(([token, participant]): Presence => ({
+                id: participant.id,
+                status: lastSeen.has(token) ? statuses?.[token] ?? "online" : "offline",
+                lastSeen: lastSeen.get(token) ?? participant.joinedAt,
+            }))
+        },
+
+        acquireThrottle: async (key, windowMs) => {
+            const result = await redis.set(`throttle:${key}`, "1", { nx: true, px: windowMs })
+            return result === "OK"
+        },
+
+        consumeRateLimit: async (key, limit, windowMs) => {
+            return rateLimitScript.exec([`ratelimit:${key}`], [Date.now().toString(), windowMs.toString(), limit.toString(), nanoid()])
+        },
+
+        appendMessage: async (roomId, draft) => {
+            const seq = await redis.incr(`seq:${roomId}`)
+            const message: Message = { ...draft, seq }
+            await redis.hset(`messages:${roomId}`, { [message.id]: JSON.stringify(message) })
+            await redis.zadd(`timeline:${roomId}`, { score: seq, member: message.id })
+            if (message.expiresAt) {
+                await redis.zadd(`expiry:${roomId}`, { score: message.expiresAt, member: message.id })
+            }
+            await expireWithRoom(
+                roomId,
+                `messages:${roomId}`,
+                `timeline:${roomId}`,
+                `seq:${roomId}`,
+                `expiry:${roomId}`,
+                `idempotency:${roomId}`,
+            )
+            return message
+        },
+
+        getMessage,
+
+        replaceMessage: async (roomId, message) => {
+            await replaceMessageScript.exec([`messages:${roomId}`], [message.id, JSON.stringify(message)])
+        },
+
+        removeMessages,
+
+        takeExpiredMessages: async (roomId) => {
+            const ids = await redis.zrange<string[]>(`expiry:${roomId}`, "-inf", Date.now(), { byScore: true })
+            await removeMessages(roomId, ids)
+            return ids
+        },
+
+        listMessagePage: async (roomId, { before, limit }) => {
+            // Fetch one extra id to learn whether there is anything older
+            const ids = await redis.zrange<string[]>(
+                `timeline:${roomId}`,
+                before ? `(${before}` : "+inf",
+                "-inf",
+                { byScore: true, rev: true, offset: 0, count: limit + 1 },
+            )
+            const hasMore = ids.length > limit
+            const parsed = await getMessages(roomId, ids.slice(0, limit).reverse())
+            return {
+                messages: parsed.filter((message) => isLive(message)),
+                nextCursor: hasMore && parsed.length > 0 ? parsed[0].seq : null,
+            }
+        },
+
+        listMessagesSince: async (roomId, sinceId, limit) => {
+            const since = await redis.zscore(`timeline:${roomId}`, sinceId)
+            if (since === null) return null
+
+            const ids = await redis.zrange<string[]>(
+                `timeline:${roomId}`,
+                `(${since}`,
+                "+inf",
+                { byScore: true, offset: 0, count: limit + 1 },
+            )
+            const messages = await getMessages(roomId, ids.slice(0, limit))
+            return { messages: messages.filter((message) => isLive(message)), hasMore: ids.length > limit }
+        },
+
+        claimClientId: async (roomId, clientId, messageId) => {
+            const claimed = await redis.hsetnx(`idempotency:${roomId}`, clientId, messageId)
+            await expireWithRoom(roomId, `idempotency:${roomId}`)
+            if (claimed) return null
+            return await redis.hget<string>(`idempotency:${roomId}`, clientId)
+        },
+
+        releaseClientId: async (roomId, clientId) => {
+            await redis.hdel(`idempotency:${roomId}`, clientId)
+        },
+
+        putAttachment: async (roomId, attachment) => {
+            const stored = await putAttachmentScript.exec(
+                [`meta:${roomId}`, `attachments:${roomId}`, `attachment-bytes:${roomId}`],
+                [attachment.id, JSON.stringify(attachment), attachment.size.toString(), ATTACHMENT_LIMITS.perRoomBytes.toString()],
+            )
+            return stored === 1
+        },
+
+        getAttachment: async (roomId, id) => {
+            return parseAttachment(await redis.hget(`attachments:${roomId}`, id))
+        },
+
+        bindAttachments: async (roomId, ids, messageId) => {
+            return (await bindAttachmentsScript.exec([`attachments:${roomId}`], [messageId, ...ids])) === 1
+        },
+
+        removeAttachments,
+
+        createInvite: async (roomId, invite) => {
+            await redis.hset(`invites:${roomId}`, { [invite.code]: JSON.stringify(invite) })
+            await expireWithRoom(roomId, `invites:${roomId}`)
+        },
+
+        getInvite: async (roomId, code) => {
+            const invite = parseInvite(await redis.hget(`invites:${roomId}`, code))
+            return invite && isOutstanding(invite) ? invite : null
+        },
+
+        listInvites: async (roomId) => {
+            const raw = await redis.hgetall<Record<string, unknown>>(`invites:${roomId}`)
+            return Object.values(raw ?? {})
+                .map(parseInvite)
+                .filter((invite): invite is Invite => invite !== null && isOutstanding(invite))
+                .sort((a, b) => a.createdAt - b.createdAt)
+        },
+
+        consumeInvite: async (roomId, code) => {
+            return (await consumeInviteScript.exec([`invites:${roomId}`], [code, Date.now().toString()])) === 1
+        },
+
+        revokeInvite: async (roomId, code) => {
+            return (await redis.hdel(`invites:${roomId}`, code)) > 0
+        },
+
+        listReactions: async (roomId) => {
+            const raw = await redis.hgetall<Record<string, unknown>>(`reactions:${roomId}`)
+            return Object.values(raw ?? {})
+                .map(parseReaction)
+                .filter((reaction): reaction is Reaction => reaction !== null)
+        },
+
+        // HSETNX and HDEL only report a change once, so two quick taps can't count twice
+        setReaction: async (roomId, reaction, reacted) => {
+            const key = `reactions:${roomId}`
+            if (!reacted) {
+                return (await redis.hdel(key, reactionKey(reaction))) > 0
+            }
+            const added = await redis.hsetnx(key, reactionKey(reaction), JSON.stringify(reaction))
+            await expireWithRoom(roomId, key)
+            return added === 1
+        },
+
+        removeReactions,
+
+        listReceipts: async (roomId) => {
+            const raw = await redis.hgetall<Record<string, unknown>>(`receipts:${roomId}`)
+            return Object.values(raw ?? {})
+                .map(parseReceipt)
+                .filter((receipt): receipt is Receipt => receipt !== null)
+        },
+
+        advanceReceipt: async (roomId, participantId, message, state) => {
+            const key = `receipts:${roomId}`
+            const receipt = nextReceipt(parseReceipt(await redis.hget(key, participantId)), participantId, message, state)
+            if (!receipt) return null
+
+            await redis.hset(key, { [participantId]: JSON.stringify(receipt) })
+            await expireWithRoom(roomId, key)
+            return receipt
+        },
+    }
+}
@@ -0,0 +1,112 @@
+import { format } from "date-fns"
+import type { DecryptedMessage } from "./crypto"
+
+// Transcripts are built in the browser from messages it already decrypted - the server
+// only ever hears that an export happened, never what was in it
+
+export const TRANSCRIPT_FORMATS = ["md", "json", "txt"] as const
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number]
+
+export type TranscriptRoom = {
+    roomId: string
+    // When the room will self-destruct, null if we don't know yet
+    expiresAt: number | null
+    exportedAt: number
+    participants: string[]
+}
+
+type TranscriptEntry = {
+    id: string
+    sender: string
+    timestamp: number
+    editedAt?: number
+    // null for unsent messages and ones this browser couldn't decrypt
+    text: string | null
+    unsent: boolean
+}
+
+const TIMESTAMP_FORMAT = "yyyy-MM-dd HH:mm:ss"
+
+const formatTime = (ms: number) => format(ms, TIMESTAMP_FORMAT)
+
+// Every line ending a Markdown or plain-text viewer might honour
+const LINE_BREAK = /\r\n|\r|\n/
+
+const toEntries = (messages: DecryptedMessage[], senderName: (message: DecryptedMessage) => string): TranscriptEntry[] => {
+    return messages.map((message) => ({
+        id: message.id,
+        sender: senderName(message),
+        timestamp: message.timestamp,
+        editedAt: message.editedAt,
+        text: message.text,
+        unsent: Boolean(message.deletedAt),
+    }))
+}
+
+const entryText = (entry: TranscriptEntry) => {
+    if (entry.unsent) return "[unsent]"
+    if (entry.text === null) return "[could not decrypt]"
+    return entry.text
+}
+
+const header = (room: TranscriptRoom) => [
+    `Room: ${room.roomId}`,
+    `Exported: ${formatTime(room.exportedAt)}`,
+    `Self-destructs: ${room.expiresAt === null ? "unknown" : formatTime(room.expiresAt)}`,
+    `Participants: ${room.participants.join(", ") || "-"}`,
+]
+
+const toMarkdown = (room: TranscriptRoom, entries: TranscriptEntry[]) => {
+    const lines = [`# Transcript of room ${room.roomId}`, "", ...header(room).slice(1).map((line) => `- ${line}`), ""]
+    for (const entry of entries) {
+        const edited = entry.editedAt ? ` _(edited ${formatTime(entry.editedAt)})_` : ""
+        lines.push(`**${entry.sender}** · ${formatTime(entry.timestamp)}${edited}`, "")
+        // Quote every line so a message can't break out into transcript structure
+        lines.push(...entryText(entry).split(LINE_BREAK).map((line) => `> ${line}`), "")
+    }
+    return lines.join("\n")
+}
+
+const toText = (room: TranscriptRoom, entries: TranscriptEntry[]) => {
+    const lines = [...header(room), ""]
+    for (const entry of entries) {
+        const edited = entry.editedAt ? " (edited)" : ""
+        // Indent every continuation line so a message can't pass itself off as another one
+        const [first, ...rest] = `[${formatTime(entry.timestamp)}] ${entry.sender}${edited}: ${entryText(entry)}`.split(LINE_BREAK)
+        lines.push(first, ...rest.map((line) => `    ${line}`))
+    }
+    return lines.join("\n")
+}
+
+const toJson = (room: TranscriptRoom, entries: TranscriptEntry[]) => {
+    return JSON.stringify({
+        room: {
+            ...room,
+            exportedAt: new Date(room.exportedAt).toISOString(),
+            expiresAt: room.expiresAt === null ? null : new Date(room.expiresAt).toISOString(),
+        },
+        messages: entries.map((entry) => ({
+            ...entry,
+            timestamp: new Date(entry.timestamp).toISOString(),
+            editedAt: entry.editedAt ? new Date(entry.editedAt).toISOString() : undefined,
+        })),
+    }, null, 2)
+}
+
+export const buildTranscript = (
+    transcriptFormat: TranscriptFormat,
+    room: TranscriptRoom,
+    messages: DecryptedMessage[],
+    senderName: (message: DecryptedMessage) => string,
+) => {
+    const entries = toEntries(messages, senderName)
+    if (transcriptFormat === "md") return toMarkdown(room, entries)
+    if (transcriptFormat === "json") return toJson(room, entries)
+    return toText(room, entries)
+}
+
+// Encrypted exports are a JSON envelope whatever the format inside - see encryptWithPassphrase
+export const transcriptFilename = (room: TranscriptRoom, transcriptFormat: TranscriptFormat, encrypted: boolean) => {
+    const base = `transcript-${room.roomId}-${format(room.exportedAt, "yyyyMMdd-HHmm")}.${transcriptFormat}`
+    return encrypted ? `${base}.enc.json` : base
+}
@@ -1,71 +1,90 @@
 import { NextRequest, NextResponse } from "next/server"
-import { redis } from "./lib/redis"
 import { nanoid } from "nanoid"
+import { isAdmitted, takeSeat } from "./lib/admission"
+import { roomTokenCookie, roomTokenCookieOptions } from "./lib/room"
+import { store } from "./lib/storage"
 
 export const proxy = async (req: NextRequest) => {
 const pathname = req.nextUrl.pathname
 
+    // The passphrase screen - only for rooms that have one
+    const joinMatch = pathname.match(/^\/room\/([^/]+)\/join$/)
+    if (joinMatch) {
+        const meta = await store.getRoomMeta(joinMatch[1])
+        if (!meta) return NextResponse.redirect(new URL("/?error=room-not-found", req.url))
+        if (!meta.passphraseHash) return NextResponse.redirect(new URL(`/room/${joinMatch[1]}`, req.url))
+        return NextResponse.next()
+    }
+
     const roomMatch= pathname.match(/^\/room\/([^/]+)$/)
     if (!roomMatch) return NextResponse.redirect(new URL("/", req.url))
 
         const roomId = roomMatch[1]
 
-        const meta = await redis.hgetall<{connected: string, createdAt: string}>(`meta:${roomId}`)
+        // A returning browser re-joins with its existing token, which also reclaims a seat
+        // it lost to heartbeat expiry if there is still room
+        const cookieName = roomTokenCookie(roomId)
+        const existingToken = req.cookies.get(cookieName)?.value
+
+        const meta = await store.getRoomMeta(roomId)
         if (!meta) {
             return NextResponse.redirect(new URL("/?error=room-not-found", req.url))
         }
-        
-        // Parse connected array from JSON string or handle raw string values
-        let connected: string[] = []
-        try {
-            if (!meta.connected) {
-                connected = []
-            } else if (typeof meta.connected === 'string') {
-                // Try to parse as JSON array first
-                try {
-                    const parsed = JSON.parse(meta.connected)
-                    connected = Array.isArray(parsed) ? parsed : []
-                } catch {
-                    // If not valid JSON, treat as a single token string
-                    // This handles legacy data or incorrectly stored values
-                    connected = [meta.connected]
-                }
-            } else if (Array.isArray(meta.connected)) {
-                connected = meta.connected
-            }
-        } catch (e) {
-            console.error("Error parsing connected array in proxy:", e)
-            connected = []
+
+        if (existingToken && await store.isKicked(roomId, existingToken)) {
+            return NextResponse.redirect(new URL("/?error=kicked", req.url))
         }
-        
-        const existingToken = req.cookies.get("x-auth-token")?.value
-        if (existingToken && connected.includes(existingToken)) {
-            return NextResponse.next()
+
+        // Newcomers need an unused invite - `/room/{roomId}?invite={code}`
+        const admitted = await isAdmitted(roomId, meta, existingToken)
+        const invite = req.nextUrl.searchParams.get("invite")
+        if (!admitted) {
+            if (meta.locked) {
+                return NextResponse.redirect(new URL("/?error=room-locked", req.url))
+            }
+            if (!invite) {
+                return NextResponse.redirect(new URL("/?error=invite-required", req.url))
+            }
+            if (!(await store.getInvite(roomId, invite))) {
+                return NextResponse.redirect(new URL("/?error=invite-invalid", req.url))
+            }
+            // Tokens for a protected room are only issued by POST /api/room/join, which
+            // uses the invite up once the passphrase is right
+            if (meta.passphraseHash) {
+                return NextResponse.redirect(new URL(`/room/${roomId}/join?invite=${encodeURIComponent(invite)}`, req.url))
+            }
         }
 
-        //If ID is not in the existing values
-        if(connected.length >= 2) {
+        const token = existingToken ?? nanoid()
+
+        const result = await takeSeat(roomId, token)
+        if (result === "not-found") {
+            return NextResponse.redirect(new URL("/?error=room-not-found", req.url))
+        }
+        if (result === "full") {
             return NextResponse.redirect(new URL("/?error=room-full", req.url))
         }
 
-        const response = NextResponse.next()
+        // Only used up once there was a seat for it - if someone else got the last use
+        // first, give the seat back
+        if (!admitted && invite) {
+            if (!(await store.consumeInvite(roomId, invite))) {
+                await store.leaveRoom(roomId, token)
+                return NextResponse.redirect(new URL("/?error=invite-invalid", req.url))
+            }
+        }
 
-        const token = nanoid()
-        response.cookies.set("x-auth-token", token, {
-            path: "/",
-            httpOnly: true,
-            secure: process.env.NODE_ENV === "production",
-            sameSite: "strict",
-        })
+        // Drop the used invite from the address bar - the #fragment with the room key survives
+        // the redirect
+        const response = invite ? NextResponse.redirect(new URL(`/room/${roomId}`, req.url)) : NextResponse.next()
 
-        const updatedConnected = [...connected, token]
-        await redis.hset(`meta:${roomId}`, {
-            connected: JSON.stringify(updatedConnected), // Store as JSON string
-        })
+        if (!existingToken) {
+            response.cookies.set(cookieName, token, roomTokenCookieOptions(await store.getRoomTtl(roomId)))
+        }
         return response
 }
 
 export const config = {
     matcher: "/room/:path*",
 
-}
\ No newline at end of file
+}
@@ -0,0 +1,236 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { store } from "@/lib/storage"
+import { ROOM_PARTICIPANTS, ROOM_TTL_SECONDS } from "@/lib/room-limits"
+import { api, createOwnedRoom, createRoom, encrypted, join, joinAs, recordEvents, type MessageBody, type MessagesBody } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+describe("POST /room/create", () => {
+    it("creates a room with the default lifetime and capacity", async () => {
+        const roomId = await createRoom()
+        const cookie = await join(roomId)
+
+        const ttl = await api<{ ttl: number }>("GET", `/room/ttl?roomId=${roomId}`, { cookie })
+        expect(ttl.body.ttl).toBeGreaterThan(ROOM_TTL_SECONDS.default - 5)
+        expect(ttl.body.ttl).toBeLessThanOrEqual(ROOM_TTL_SECONDS.default)
+
+        const info = await api("GET", `/room/info?roomId=${roomId}`, { cookie })
+        expect(info.body).toEqual({ participants: 1, maxParticipants: ROOM_PARTICIPANTS.default, locked: false, allowExport: true, isOwner: false, ownerId: null })
+    })
+
+    it("rejects lifetimes and capacities out of bounds", async () => {
+        const tooShort = await api("POST", "/room/create", { body: { ttlSeconds: ROOM_TTL_SECONDS.min - 1 } })
+        const tooBig = await api("POST", "/room/create", { body: { maxParticipants: ROOM_PARTICIPANTS.max + 1 } })
+        expect(tooShort.status).toBe(422)
+        expect(tooBig.status).toBe(422)
+    })
+})
+
+describe("authentication", () => {
+    it("rejects requests without the room's cookie", async () => {
+        const roomId = await createRoom()
+        const res = await api("GET", `/messages?roomId=${roomId}`)
+        expect(res.status).toBe(401)
+        expect(res.body).toEqual({ error: "Unauthorized" })
+    })
+
+    it("rejects tokens that never took a seat", async () => {
+        const roomId = await createRoom()
+        const res = await api("GET", `/messages?roomId=${roomId}`, { cookie: `x-auth-token-${roomId}=made-up` })
+        expect(res.status).toBe(401)
+    })
+
+    it("rejects a cookie issued for another room", async () => {
+        const roomId = await createRoom()
+        const otherRoomId = await createRoom()
+        const cookie = await join(otherRoomId)
+
+        const res = await api("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(res.status).toBe(401)
+    })
+
+    it("rejects members once they have left", async () => {
+        const roomId = await createRoom()
+        const cookie = await join(roomId)
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie })
+
+        const res = await api("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(res.status).toBe(401)
+    })
+})
+
+describe("POST /messages", () => {
+    it("requires a registered display name", async () => {
+        const roomId = await createRoom()
+        const cookie = await join(roomId)
+
+        const res = await api("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+        expect(res.status).toBe(403)
+    })
+
+    it("stamps the sender and broadcasts the message without the author's token", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const recorder = recordEvents(roomId)
+
+        const res = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+        recorder.stop()
+
+        expect(res.status).toBe(200)
+        expect(res.body.message).toMatchObject({ sender: "alice", seq: 1, ...encrypted() })
+        expect(res.body.message.token).toBeTruthy()
+
+        const broadcast = recorder.events.find((event) => event.event === "chat.message")
+        expect(broadcast?.data).toMatchObject({ id: res.body.message.id, sender: "alice" })
+        expect((broadcast?.data as { token?: string }).token).toBeUndefined()
+    })
+
+    it("returns the original message when a send is retried", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const body = { ...encrypted(), clientId: "retry-me-1234" }
+
+        const first = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body, cookie })
+        const retry = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body, cookie })
+        expect(retry.body.message.id).toBe(first.body.message.id)
+
+        const history = await api<MessagesBody>("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(history.body.messages).toHaveLength(1)
+    })
+
+    it("never hands someone else's message or token to a reused clientId", async () => {
+        const roomId = await createRoom({ maxParticipants: 3 })
+        const alice = await joinAs(roomId, "alice")
+        const bob = await joinAs(roomId, "bob")
+        const body = { ...encrypted(), clientId: "retry-me-1234" }
+
+        const first = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body, cookie: alice })
+        const copycat = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body, cookie: bob })
+        expect(copycat.status).toBe(200)
+        expect(copycat.body.message.id).not.toBe(first.body.message.id)
+        expect(copycat.body.message.token).not.toBe(first.body.message.token)
+        expect(copycat.body.message.sender).toBe("bob")
+    })
+
+    it("lets a retry go through once the reason it was refused is fixed", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const body = { ...encrypted(), clientId: "retry-me-1234" }
+
+        expect((await api("POST", `/messages?roomId=${roomId}`, { body: { ...body, replyTo: "missing" }, cookie })).status).toBe(400)
+        expect((await api("POST", `/messages?roomId=${roomId}`, { body, cookie })).status).toBe(200)
+    })
+
+    it("rejects ciphertext with the wrong nonce size", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+
+        const res = await api("POST", `/messages?roomId=${roomId}`, { body: { ...encrypted(), nonce: "short" }, cookie })
+        expect(res.status).toBe(422)
+    })
+})
+
+describe("GET /messages", () => {
+    it("only shows a message's token to its author", async () => {
+        const roomId = await createRoom()
+        const alice = await joinAs(roomId, "alice")
+        const bob = await joinAs(roomId, "bob")
+        await api("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie: alice })
+
+        const asAlice = await api<MessagesBody>("GET", `/messages?roomId=${roomId}`, { cookie: alice })
+        const asBob = await api<MessagesBody>("GET", `/messages?roomId=${roomId}`, { cookie: bob })
+        expect(asAlice.body.messages[0].token).toBeTruthy()
+        expect(asBob.body.messages[0].token).toBeUndefined()
+    })
+
+    it("pages back through history with the seq cursor", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        for (let i = 0; i < 5; i++) {
+            await api("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+        }
+
+        const newest = await api<MessagesBody>("GET", `/messages?roomId=${roomId}&limit=2`, { cookie })
+        expect(newest.body.messages.map((message) => message.seq)).toEqual([4, 5])
+
+        const older = await api<MessagesBody>("GET", `/messages?roomId=${roomId}&limit=2&before=${newest.body.nextCursor}`, { cookie })
+        expect(older.body.messages.map((message) => message.seq)).toEqual([2, 3])
+
+        const oldest = await api<MessagesBody>("GET", `/messages?roomId=${roomId}&limit=2&before=${older.body.nextCursor}`, { cookie })
+        expect(oldest.body.messages.map((message) => message.seq)).toEqual([1])
+        expect(oldest.body.nextCursor).toBeNull()
+    })
+
+    it("returns only what came after a given message", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const first = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+        await api("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+
+        const since = await api<MessagesBody>("GET", `/messages?roomId=${roomId}&since=${first.body.message.id}`, { cookie })
+        expect(since.body.reset).toBe(false)
+        expect(since.body.messages.map((message) => message.seq)).toEqual([2])
+
+        const unknown = await api<MessagesBody>("GET", `/messages?roomId=${roomId}&since=gone`, { cookie })
+        expect(unknown.body.reset).toBe(true)
+    })
+
+    it("drops messages together with the room when it expires", async () => {
+        const roomId = await createRoom({ ttlSeconds: 60 })
+        const cookie = await joinAs(roomId, "alice")
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+
+        setSystemTime(new Date(Date.now() + 61 * 1000))
+        const res = await api("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(res.status).toBe(401)
+        expect(await store.getMessage(roomId, sent.body.message.id)).toBeNull()
+    })
+})
+
+describe("editing and unsending", () => {
+    it("only lets the author change a message", async () => {
+        const roomId = await createRoom()
+        const alice = await joinAs(roomId, "alice")
+        const bob = await joinAs(roomId, "bob")
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie: alice })
+        const id = sent.body.message.id
+
+        const byBob = await api("PATCH", `/messages/${id}?roomId=${roomId}`, { body: encrypted("ZWRpdGVk"), cookie: bob })
+        expect(byBob.status).toBe(403)
+
+        const byAlice = await api<MessageBody>("PATCH", `/messages/${id}?roomId=${roomId}`, { body: encrypted("ZWRpdGVk"), cookie: alice })
+        expect(byAlice.body.message).toMatchObject({ ciphertext: "ZWRpdGVk" })
+        expect(byAlice.body.message.editedAt).toBeNumber()
+
+        const unsent = await api<MessageBody>("DELETE", `/messages/${id}?roomId=${roomId}`, { cookie: alice })
+        expect(unsent.body.message).toMatchObject({ ciphertext: "", nonce: "" })
+        expect(unsent.body.message.deletedAt).toBeNumber()
+
+        const recorder = recordEvents(roomId)
+        const again = await api("DELETE", `/messages/${id}?roomId=${roomId}`, { cookie: alice })
+        recorder.stop()
+        expect(again.status).toBe(404)
+        expect(recorder.events).toEqual([])
+        expect((await store.getMessage(roomId, id))?.deletedAt).toBe(unsent.body.message.deletedAt)
+    })
+})
+
+describe("DELETE /room", () => {
+    it("notifies everyone and removes everything the room stored", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { body: encrypted(), cookie })
+        const recorder = recordEvents(roomId)
+
+        await api("DELETE", `/room?roomId=${roomId}`, { cookie })
+        recorder.stop()
+
+        expect(recorder.events.map((event) => event.event)).toContain("chat.destroy")
+        expect(await store.getRoomMeta(roomId)).toBeNull()
+        expect(await store.getMessage(roomId, sent.body.message.id)).toBeNull()
+
+        const after = await api("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(after.status).toBe(401)
+    })
+})
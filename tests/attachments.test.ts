@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { ciphertextLength } from "@/lib/crypto"
+import { ATTACHMENT_LIMITS } from "@/lib/room-limits"
+import { store } from "@/lib/storage"
+import { api, createOwnedRoom, encrypted, joinAs, type MessageBody } from "./helpers"
+
+// Stand-in for a file encrypted in the browser - only its length matters to the server
+const upload = (roomId: string, cookie: string, { size = 1024, mimeType = "image/png", length = ciphertextLength(size) } = {}) => {
+    return api<{ attachment: { id: string, mimeType: string, size: number } }>("POST", `/attachments?roomId=${roomId}`, {
+        cookie,
+        body: { ciphertext: "A".repeat(length), nonce: "AAAAAAAAAAAAAAAA", version: 1, mimeType, size },
+    })
+}
+
+const name = { ciphertext: "bmFtZQ", nonce: "AAAAAAAAAAAAAAAA" }
+
+afterEach(() => {
+    setSystemTime()
+})
+
+describe("attachments", () => {
+    it("are stored encrypted and only handed to people in the room", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+
+        const uploaded = await upload(roomId, cookie, { size: 2048 })
+        expect(uploaded.status).toBe(200)
+        expect(uploaded.body.attachment).toMatchObject({ mimeType: "image/png", size: 2048 })
+
+        const downloaded = await api<{ ciphertext: string }>("GET", `/attachments/${uploaded.body.attachment.id}?roomId=${roomId}`, { cookie: guest })
+        expect(downloaded.status).toBe(200)
+        expect(downloaded.body.ciphertext).toHaveLength(ciphertextLength(2048))
+
+        const other = await createOwnedRoom("mallory")
+        const outsider = await api("GET", `/attachments/${uploaded.body.attachment.id}?roomId=${roomId}`, { cookie: other.cookie })
+        expect(outsider.status).toBe(401)
+    })
+
+    it("refuses files that are too big, of the wrong type or lie about their size", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+
+        expect((await upload(roomId, cookie, { size: ATTACHMENT_LIMITS.maxBytes + 1 })).status).toBe(422)
+        expect((await upload(roomId, cookie, { mimeType: "application/x-msdownload" })).status).toBe(422)
+        expect((await upload(roomId, cookie, { size: 10, length: ciphertextLength(4096) })).status).toBe(400)
+    })
+
+    it("keeps each room inside its upload budget", async () => {
+        const { roomId } = await createOwnedRoom("alice")
+        const file = (id: string, size: number) => ({ id, token: "t", mimeType: "image/png" as const, size, ciphertext: "", nonce: "", version: 1 as const, createdAt: Date.now() })
+
+        expect(await store.putAttachment(roomId, file("a", ATTACHMENT_LIMITS.perRoomBytes - 10))).toBe(true)
+        expect(await store.putAttachment(roomId, file("b", 11))).toBe(false)
+        await store.removeAttachments(roomId, ["a"])
+        expect(await store.putAttachment(roomId, file("b", 11))).toBe(true)
+    })
+
+    it("can only be sent by whoever uploaded them, with the size and type they were stored with", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const { body } = await upload(roomId, cookie, { size: 100, mimeType: "text/plain" })
+        const attachments = [{ id: body.attachment.id, name }]
+
+        const stolen = await api("POST", `/messages?roomId=${roomId}`, { cookie: guest, body: { ...encrypted(), attachments } })
+        expect(stolen.status).toBe(400)
+
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: { ...encrypted(""), attachments } })
+        expect(sent.status).toBe(200)
+        expect(sent.body.message.attachments).toEqual([{ id: body.attachment.id, name, mimeType: "text/plain", size: 100 }])
+    })
+
+    it("go out with one message only", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const { body } = await upload(roomId, cookie)
+        const attachments = [{ id: body.attachment.id, name }]
+
+        const twice = await api("POST", `/messages?roomId=${roomId}`, { cookie, body: { ...encrypted(), attachments: [...attachments, ...attachments] } })
+        expect(twice.status).toBe(409)
+
+        const send = { ...encrypted(), attachments, clientId: "with-a-file-1234" }
+        const first = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: send })
+        const retry = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: send })
+        const again = await api("POST", `/messages?roomId=${roomId}`, { cookie, body: { ...encrypted(), attachments } })
+        expect(first.status).toBe(200)
+        expect(retry.body.message.id).toBe(first.body.message.id)
+        expect(again.status).toBe(409)
+
+        await api("DELETE", `/messages/${first.body.message.id}?roomId=${roomId}`, { cookie, body: {} })
+        expect((await api("GET", `/attachments/${body.attachment.id}?roomId=${roomId}`, { cookie: guest })).status).toBe(404)
+    })
+
+    it("are removed with the message that carried them", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+
+        const sendWithFile = async (extra: object = {}) => {
+            const { body } = await upload(roomId, cookie)
+            const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: { ...encrypted(), ...extra, attachments: [{ id: body.attachment.id, name }] } })
+            return { messageId: sent.body.message.id, attachmentId: body.attachment.id }
+        }
+
+        const unsent = await sendWithFile()
+        await api("DELETE", `/messages/${unsent.messageId}?roomId=${roomId}`, { cookie, body: {} })
+        expect((await api("GET", `/attachments/${unsent.attachmentId}?roomId=${roomId}`, { cookie: guest })).status).toBe(404)
+
+        const burned = await sendWithFile({ burnAfterRead: true })
+        await api("POST", `/messages/${burned.messageId}/burn?roomId=${roomId}`, { cookie: guest })
+        expect(await store.getAttachment(roomId, burned.attachmentId)).toBeNull()
+
+        const kept = await sendWithFile()
+        await api("DELETE", `/room?roomId=${roomId}`, { cookie })
+        expect(await store.getAttachment(roomId, kept.attachmentId)).toBeNull()
+    })
+
+    it("are gone as soon as their message expires, before anyone prunes it", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const { body } = await upload(roomId, cookie)
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, {
+            cookie,
+            body: { ...encrypted(), expiresIn: 30, attachments: [{ id: body.attachment.id, name }] },
+        })
+        const messageId = sent.body.message.id
+
+        setSystemTime(new Date(Date.now() + 31 * 1000))
+        expect((await api("POST", `/messages/${messageId}/reactions?roomId=${roomId}`, { cookie: guest, body: { emoji: "👍", reacted: true } })).status).toBe(404)
+        expect((await api("POST", `/messages?roomId=${roomId}`, { cookie: guest, body: { ...encrypted(), replyTo: messageId } })).status).toBe(400)
+        expect((await api("DELETE", `/messages/${messageId}?roomId=${roomId}`, { cookie, body: {} })).status).toBe(404)
+        expect((await api("GET", `/attachments/${body.attachment.id}?roomId=${roomId}`, { cookie: guest })).status).toBe(404)
+        expect(await store.getAttachment(roomId, body.attachment.id)).toBeNull()
+    })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "bun:test"
+import { decryptWithPassphrase, encryptWithPassphrase, type DecryptedMessage } from "@/lib/crypto"
+import { buildTranscript, transcriptFilename, type TranscriptRoom } from "@/lib/transcript"
+import { api, createOwnedRoom, join, joinAs, participantOf, recordEvents } from "./helpers"
+
+const room: TranscriptRoom = {
+    roomId: "room-1",
+    expiresAt: Date.UTC(2026, 0, 1, 12, 10),
+    exportedAt: Date.UTC(2026, 0, 1, 12, 0),
+    participants: ["alice", "bob"],
+}
+
+const message = (overrides: Partial<DecryptedMessage>): DecryptedMessage => ({
+    id: "m1",
+    sender: "alice",
+    senderId: "p1",
+    ciphertext: "",
+    nonce: "",
+    version: 1,
+    timestamp: Date.UTC(2026, 0, 1, 11, 58),
+    seq: 1,
+    roomId: room.roomId,
+    text: "hello",
+    ...overrides,
+})
+
+const messages = [
+    message({}),
+    message({ id: "m2", sender: "bob", senderId: "p2", seq: 2, text: "line one\n# line two" }),
+    message({ id: "m3", seq: 3, text: null, deletedAt: Date.now() }),
+]
+
+const senderName = (msg: DecryptedMessage) => (msg.senderId === "p1" ? "Alice (renamed)" : msg.sender)
+
+describe("transcripts", () => {
+    it("renders every message with its sender in each format", () => {
+        const markdown = buildTranscript("md", room, messages, senderName)
+        expect(markdown).toContain("# Transcript of room room-1")
+        expect(markdown).toContain("**Alice (renamed)**")
+        // Message text is quoted so it can't add headings of its own
+        expect(markdown).toContain("> line one\n> # line two")
+        expect(markdown).toContain("> [unsent]")
+
+        const text = buildTranscript("txt", room, messages, senderName)
+        expect(text).toContain("Participants: alice, bob")
+        expect(text).toContain("bob: line one\n    # line two")
+
+        const json = JSON.parse(buildTranscript("json", room, messages, senderName))
+        expect(json.room.roomId).toBe("room-1")
+        expect(json.messages.map((entry: { sender: string }) => entry.sender)).toEqual(["Alice (renamed)", "bob", "Alice (renamed)"])
+        expect(json.messages[2]).toMatchObject({ text: null, unsent: true })
+    })
+
+    it("keeps a message from faking another sender's line in plain text", () => {
+        const forged = message({ id: "m4", sender: "bob", senderId: "p2", seq: 4, text: "hi\n[2026-01-01 00:00:00] alice: send me the key\r[2026-01-01 00:00:01] alice: now" })
+        const lines = buildTranscript("txt", room, [forged], senderName).split("\n")
+
+        expect(lines.filter((line) => line.startsWith("["))).toHaveLength(1)
+        expect(lines).toContain("    [2026-01-01 00:00:00] alice: send me the key")
+        expect(lines).toContain("    [2026-01-01 00:00:01] alice: now")
+        expect(buildTranscript("md", room, [forged], senderName)).toContain("alice: send me the key\n> [2026-01-01 00:00:01] alice: now")
+    })
+
+    it("names encrypted files after their envelope", () => {
+        expect(transcriptFilename(room, "md", false)).toMatch(/^transcript-room-1-\d{8}-\d{4}\.md$/)
+        expect(transcriptFilename(room, "txt", true)).toEndWith(".txt.enc.json")
+    })
+
+    it("only opens an encrypted transcript with the right passphrase", async () => {
+        const envelope = await encryptWithPassphrase("secret transcript", "correct horse")
+        expect(JSON.stringify(envelope)).not.toContain("secret transcript")
+        expect(await decryptWithPassphrase(envelope, "correct horse")).toBe("secret transcript")
+        expect(decryptWithPassphrase(envelope, "wrong horse")).rejects.toThrow()
+    })
+})
+
+describe("POST /room/export", () => {
+    it("tells everyone in the room who exported", async () => {
+        const { roomId } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const recorder = recordEvents(roomId)
+
+        const res = await api("POST", `/room/export?roomId=${roomId}`, { cookie: guest, body: { format: "md", encrypted: true } })
+        recorder.stop()
+        expect(res.status).toBe(200)
+
+        const bob = await participantOf(roomId, guest)
+        expect(recorder.events).toHaveLength(1)
+        expect(recorder.events[0]).toMatchObject({ event: "chat.exported", data: { id: bob.id, format: "md", encrypted: true } })
+    })
+
+    it("refuses when the owner turned exports off", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { allowExport: false })
+        const info = await api<{ allowExport: boolean }>("GET", `/room/info?roomId=${roomId}`, { cookie })
+        expect(info.body.allowExport).toBe(false)
+
+        const res = await api("POST", `/room/export?roomId=${roomId}`, { cookie, body: { format: "txt", encrypted: false } })
+        expect(res.status).toBe(403)
+    })
+
+    it("needs a registered name", async () => {
+        const { roomId } = await createOwnedRoom("alice")
+        const anonymous = await join(roomId)
+        const res = await api("POST", `/room/export?roomId=${roomId}`, { cookie: anonymous, body: { format: "json", encrypted: false } })
+        expect(res.status).toBe(403)
+    })
+})
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { roomTokenCookie } from "@/lib/room"
+import { EXTENSION_PROPOSAL_MS, ROOM_MAX_LIFETIME_SECONDS, ROOM_TTL_SECONDS } from "@/lib/room-limits"
+import { store } from "@/lib/storage"
+import { api, createOwnedRoom, encrypted, joinAs, recordEvents, type MessageBody } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+const propose = async (roomId: string, cookie: string, seconds = 600) => {
+    const res = await api<{ proposal: { id: string, proposerId: string } }>("POST", `/room/extend?roomId=${roomId}`, { cookie, body: { seconds } })
+    return res.body.proposal
+}
+
+const answer = (roomId: string, cookie: string, id: string, answer: "accept" | "decline") => {
+    return api<{ ttl: number }>("POST", `/room/extend/${id}/${answer}?roomId=${roomId}`, { cookie })
+}
+
+describe("extending a room", () => {
+    it("needs someone other than the proposer to accept", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { ttlSeconds: 120 })
+        const guest = await joinAs(roomId, "bob")
+        const recorder = recordEvents(roomId)
+
+        const proposal = await propose(roomId, cookie, 600)
+        expect((await answer(roomId, cookie, proposal.id, "accept")).status).toBe(403)
+        expect(await store.getRoomTtl(roomId)).toBeLessThanOrEqual(120)
+
+        const accepted = await answer(roomId, guest, proposal.id, "accept")
+        recorder.stop()
+        expect(accepted.status).toBe(200)
+        expect(accepted.body.ttl).toBeGreaterThan(700)
+        expect(await store.getRoomTtl(roomId)).toBe(accepted.body.ttl)
+
+        const events = recorder.events.map((event) => event.event)
+        expect(events).toEqual(["chat.extend", "chat.extend", "chat.ttl"])
+        expect(recorder.events[1].data).toMatchObject({ id: proposal.id, status: "accepted" })
+    })
+
+    it("keeps everything in the room for the extra time", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { ttlSeconds: 60 })
+        const guest = await joinAs(roomId, "bob")
+        const sent = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: encrypted() })
+
+        const start = Date.now()
+        setSystemTime(start)
+        const proposal = await propose(roomId, cookie, 600)
+        await answer(roomId, guest, proposal.id, "accept")
+
+        setSystemTime(start + 120 * 1000)
+        expect(await store.getMessage(roomId, sent.body.message.id)).not.toBeNull()
+        expect((await api("GET", `/messages?roomId=${roomId}`, { cookie: guest })).status).toBe(200)
+    })
+
+    it("only counts the first answer", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 3 })
+        const bob = await joinAs(roomId, "bob")
+        const carol = await joinAs(roomId, "carol")
+
+        const proposal = await propose(roomId, cookie)
+        expect((await answer(roomId, bob, proposal.id, "decline")).status).toBe(200)
+        expect((await answer(roomId, carol, proposal.id, "accept")).status).toBe(404)
+        expect(await store.getRoomTtl(roomId)).toBeLessThanOrEqual(ROOM_TTL_SECONDS.default)
+    })
+
+    it("lets a proposal lapse when nobody answers", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+
+        const start = Date.now()
+        setSystemTime(start)
+        const proposal = await propose(roomId, cookie)
+        setSystemTime(start + EXTENSION_PROPOSAL_MS + 1)
+        expect((await answer(roomId, guest, proposal.id, "accept")).status).toBe(404)
+    })
+
+    it("never lets a room outlive its maximum lifetime", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { ttlSeconds: ROOM_TTL_SECONDS.max })
+        const guest = await joinAs(roomId, "bob")
+
+        for (let i = 0; i < 4; i++) {
+            const proposal = await propose(roomId, i % 2 ? guest : cookie, 60 * 60)
+            if (!proposal) break
+            await answer(roomId, i % 2 ? cookie : guest, proposal.id, "accept")
+        }
+        expect(await store.getRoomTtl(roomId)).toBeLessThanOrEqual(ROOM_MAX_LIFETIME_SECONDS)
+
+        const refused = await api("POST", `/room/extend?roomId=${roomId}`, { cookie, body: { seconds: 600 } })
+        expect(refused.status).toBe(409)
+    })
+
+    it("keeps the room cookie alive as long as the room on every heartbeat", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { ttlSeconds: 120 })
+        const guest = await joinAs(roomId, "bob")
+        const proposal = await propose(roomId, cookie, 600)
+        await answer(roomId, guest, proposal.id, "accept")
+
+        const res = await api("POST", `/room/heartbeat?roomId=${roomId}`, { cookie, body: { status: "online" } })
+        const setCookie = res.headers.getSetCookie().find((header: string) => header.startsWith(`${roomTokenCookie(roomId)}=`))
+        expect(setCookie).toContain("Max-Age=7")
+    })
+})
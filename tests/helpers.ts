@@ -0,0 +1,117 @@
+import { NextRequest } from "next/server"
+import { DELETE, GET, PATCH, POST } from "@/app/api/[[...slugs]]/route"
+import { proxy } from "@/proxy"
+import { roomTokenCookie } from "@/lib/room"
+import { subscribeToLocalEvents, type LocalEvent } from "@/lib/realtime-local"
+import { store } from "@/lib/storage"
+import type { Message, Participant } from "@/lib/realtime"
+import { nanoid } from "nanoid"
+
+const BASE_URL = "http://localhost"
+const handlers = { GET, POST, PATCH, DELETE }
+
+let lastIp = 0
+
+// What the message routes answer with - tests name the shape of the body they read
+export type MessageBody = { message: Message }
+export type MessagesBody = { messages: Message[], nextCursor: number | null, reset?: boolean }
+export type ErrorBody = { error: string }
+
+// Calls the Elysia app the same way Next.js does, with the given cookie header. Every call
+// comes from a new client IP unless one is given, so tests don't share rate limit budgets.
+export const api = async <T = unknown>(
+    method: keyof typeof handlers,
+    path: string,
+    { body, cookie, ip }: { body?: unknown, cookie?: string, ip?: string } = {},
+) => {
+    const headers = new Headers()
+    if (body !== undefined) headers.set("content-type", "application/json")
+    if (cookie) headers.set("cookie", cookie)
+    lastIp += 1
+    headers.set("x-forwarded-for", ip ?? `10.0.${Math.floor(lastIp / 256) % 256}.${lastIp % 256}`)
+
+    const res = await handlers[method](new Request(`${BASE_URL}/api${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    }))
+    const text = await res.text()
+    return { status: res.status, headers: res.headers, body: (text ? JSON.parse(text) : null) as T }
+}
+
+export const createRoom = async (options: { ttlSeconds?: number, maxParticipants?: number } = {}) => {
+    const res = await api<{ roomId: string }>("POST", "/room/create", { body: options })
+    return res.body.roomId
+}
+
+// The cookie header for a room token the response handed out, if any
+export const tokenCookieFrom = (headers: Headers, roomId: string) => {
+    return headers.getSetCookie()
+        .map((header: string) => header.split(";")[0])
+        .find((pair: string) => pair.startsWith(`${roomTokenCookie(roomId)}=`))
+}
+
+// Creates a room and seats its creator, who holds the owner token
+export const createOwnedRoom = async (name: string, options: { ttlSeconds?: number, maxParticipants?: number, allowExport?: boolean } = {}) => {
+    const res = await api<{ roomId: string }>("POST", "/room/create", { body: options })
+    const roomId = res.body.roomId
+    const cookie = await joinAs(roomId, name, tokenCookieFrom(res.headers, roomId))
+    return { roomId, cookie }
+}
+
+// Opens /room/{roomId} through the join proxy
+export const visit = (path: string, cookie?: string) => {
+    return proxy(new NextRequest(`${BASE_URL}${path}`, { headers: cookie ? { cookie } : {} }))
+}
+
+// Mints an invite straight in the store, as if a participant had asked for one
+export const invite = async (roomId: string, { maxUses = 1, expiresIn = 600 }: { maxUses?: number, expiresIn?: number } = {}) => {
+    const code = nanoid(16)
+    await store.createInvite(roomId, { code, createdBy: null, createdAt: Date.now(), expiresAt: Date.now() + expiresIn * 1000, maxUses, uses: 0 })
+    return code
+}
+
+// Takes a seat in the room - with a fresh invite unless the cookie was let in before -
+// and returns the cookie header that proves it
+export const join = async (roomId: string, cookie?: string) => {
+    if (cookie) {
+        const res = await visit(`/room/${roomId}`, cookie)
+        if (res.headers.get("x-middleware-next") === "1") return cookie
+    }
+
+    const res = await visit(`/room/${roomId}?invite=${await invite(roomId)}`, cookie)
+
+    const token = res.cookies.get(roomTokenCookie(roomId))?.value
+    if (!token) {
+        throw new Error(`Could not join ${roomId}: ${res.headers.get("location")}`)
+    }
+    return `${roomTokenCookie(roomId)}=${token}`
+}
+
+// Joins and registers a display name - ready to send messages
+export const joinAs = async (roomId: string, name: string, existingCookie?: string) => {
+    const cookie = await join(roomId, existingCookie)
+    await api("POST", `/room/identity?roomId=${roomId}`, { body: { name }, cookie })
+    return cookie
+}
+
+// The participant a cookie registered as
+export const participantOf = async (roomId: string, cookie: string) => {
+    const res = await api<{ me: Participant | null }>("GET", `/room/participants?roomId=${roomId}`, { cookie })
+    if (!res.body.me) {
+        throw new Error(`No participant registered in ${roomId}`)
+    }
+    return res.body.me
+}
+
+// Collects every realtime event emitted on the room's channel
+export const recordEvents = (roomId: string) => {
+    const events: LocalEvent[] = []
+    const stop = subscribeToLocalEvents((event) => {
+        if (event.channel === roomId) events.push(event)
+    })
+    return { events, stop }
+}
+
+// Stand-in ciphertext - the server never looks inside it
+export const encrypted = (ciphertext = "c2VjcmV0") => ({ ciphertext, nonce: "AAAAAAAAAAAAAAAA", version: 1 as const })
@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { roomTokenCookie } from "@/lib/room"
+import type { Invite } from "@/lib/storage"
+import { api, createOwnedRoom, joinAs, visit } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+const mint = async (roomId: string, cookie: string, body: { maxUses?: number, expiresIn?: number } = {}) => {
+    const res = await api<{ invite: Invite }>("POST", `/room/invites?roomId=${roomId}`, { cookie, body })
+    return res.body.invite
+}
+
+const seatedBy = async (roomId: string, code: string) => {
+    const res = await visit(`/room/${roomId}?invite=${code}`)
+    return res.cookies.get(roomTokenCookie(roomId))?.value !== undefined
+}
+
+describe("invites", () => {
+    it("are required for newcomers", async () => {
+        const { roomId } = await createOwnedRoom("alice")
+        const res = await visit(`/room/${roomId}`)
+        expect(res.headers.get("location")).toBe("http://localhost/?error=invite-required")
+
+        const made = await visit(`/room/${roomId}?invite=made-up`)
+        expect(made.headers.get("location")).toBe("http://localhost/?error=invite-invalid")
+    })
+
+    it("seat one newcomer by default", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 5 })
+        const invite = await mint(roomId, cookie)
+        expect(invite.maxUses).toBe(1)
+
+        expect(await seatedBy(roomId, invite.code)).toBe(true)
+        expect(await seatedBy(roomId, invite.code)).toBe(false)
+    })
+
+    it("can be minted by any participant for several uses", async () => {
+        const { roomId } = await createOwnedRoom("alice", { maxParticipants: 5 })
+        const guest = await joinAs(roomId, "bob")
+        const invite = await mint(roomId, guest, { maxUses: 2 })
+
+        expect(await seatedBy(roomId, invite.code)).toBe(true)
+        expect(await seatedBy(roomId, invite.code)).toBe(true)
+        expect(await seatedBy(roomId, invite.code)).toBe(false)
+    })
+
+    it("never outlive the room and stop working once they expire", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { ttlSeconds: 120 })
+        const start = Date.now()
+        setSystemTime(start)
+
+        const long = await mint(roomId, cookie, { expiresIn: 60 * 30 })
+        expect(long.expiresAt).toBeLessThanOrEqual(start + 120 * 1000)
+
+        const short = await mint(roomId, cookie, { expiresIn: 60 })
+        setSystemTime(start + 61 * 1000)
+        expect(await seatedBy(roomId, short.code)).toBe(false)
+    })
+
+    it("are listed and revoked by the owner only", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 3 })
+        const guest = await joinAs(roomId, "bob")
+        const invite = await mint(roomId, guest)
+
+        expect((await api("GET", `/room/invites?roomId=${roomId}`, { cookie: guest })).status).toBe(403)
+        expect((await api("DELETE", `/room/invites/${invite.code}?roomId=${roomId}`, { cookie: guest })).status).toBe(403)
+
+        const listed = await api<{ invites: Invite[] }>("GET", `/room/invites?roomId=${roomId}`, { cookie })
+        expect(listed.body.invites.map((outstanding) => outstanding.code)).toEqual([invite.code])
+
+        expect((await api("DELETE", `/room/invites/${invite.code}?roomId=${roomId}`, { cookie })).status).toBe(200)
+        expect(await seatedBy(roomId, invite.code)).toBe(false)
+        expect((await api<{ invites: Invite[] }>("GET", `/room/invites?roomId=${roomId}`, { cookie })).body.invites).toEqual([])
+    })
+
+    it("are needed for the passphrase join too", async () => {
+        const created = await api<{ roomId: string }>("POST", "/room/create", { body: { passphrase: "correct horse" } })
+        const roomId = created.body.roomId
+
+        const res = await api("POST", "/room/join", { body: { roomId, passphrase: "correct horse" } })
+        expect(res.status).toBe(410)
+    })
+})
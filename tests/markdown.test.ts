@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test"
+import { parseInline, parseMarkdown } from "@/lib/markdown"
+
+describe("parseInline", () => {
+    it("parses code, bold and italic", () => {
+        expect(parseInline("use `npm i` **now**, *please*")).toEqual([
+            { type: "text", text: "use " },
+            { type: "code", text: "npm i" },
+            { type: "text", text: " " },
+            { type: "strong", children: [{ type: "text", text: "now" }] },
+            { type: "text", text: ", " },
+            { type: "em", children: [{ type: "text", text: "please" }] },
+        ])
+    })
+
+    it("doesn't parse Markdown inside inline code", () => {
+        expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }])
+    })
+
+    it("leaves snake_case and unmatched markers alone", () => {
+        expect(parseInline("snake_case_name and 2 * 3")).toEqual([{ type: "text", text: "snake_case_name and 2 * 3" }])
+        expect(parseInline("**open")).toEqual([{ type: "text", text: "**open" }])
+    })
+
+    it("links bare http(s) URLs without the punctuation after them", () => {
+        expect(parseInline("see https://example.com/a?b=1. (or https://en.wikipedia.org/wiki/Foo_(bar))")).toEqual([
+            { type: "text", text: "see " },
+            { type: "link", href: "https://example.com/a?b=1", text: "https://example.com/a?b=1" },
+            { type: "text", text: ". (or " },
+            { type: "link", href: "https://en.wikipedia.org/wiki/Foo_(bar)", text: "https://en.wikipedia.org/wiki/Foo_(bar)" },
+            { type: "text", text: ")" },
+        ])
+    })
+
+    it("never links other schemes", () => {
+        expect(parseInline("javascript:alert(1) data:text/html,x")).toEqual([{ type: "text", text: "javascript:alert(1) data:text/html,x" }])
+    })
+
+    it("keeps HTML as plain text", () => {
+        expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([{ type: "text", text: "<img src=x onerror=alert(1)>" }])
+    })
+})
+
+describe("parseMarkdown", () => {
+    it("splits paragraphs, fenced code and quotes", () => {
+        expect(parseMarkdown("hi\nthere\n\n```ts\nconst a = 1\n\n**x**\n```\n> quoted\n> *too*")).toEqual([
+            { type: "paragraph", children: [{ type: "text", text: "hi" }, { type: "break" }, { type: "text", text: "there" }] },
+            { type: "code", language: "ts", text: "const a = 1\n\n**x**" },
+            { type: "quote", children: [{
+                type: "paragraph",
+                children: [{ type: "text", text: "quoted" }, { type: "break" }, { type: "em", children: [{ type: "text", text: "too" }] }],
+            }] },
+        ])
+    })
+
+    it("runs an unclosed code fence to the end", () => {
+        expect(parseMarkdown("```\nline 1\nline 2")).toEqual([{ type: "code", language: null, text: "line 1\nline 2" }])
+    })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test"
+import { store } from "@/lib/storage"
+import { api, createOwnedRoom, invite, joinAs, participantOf, recordEvents, visit } from "./helpers"
+
+type RoomInfo = { isOwner: boolean, ownerId: string | null }
+
+describe("room owner", () => {
+    it("is whoever created the room", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 3 })
+        const guest = await joinAs(roomId, "bob")
+
+        const owner = await api<RoomInfo>("GET", `/room/info?roomId=${roomId}`, { cookie })
+        const me = await participantOf(roomId, cookie)
+        expect(owner.body.isOwner).toBe(true)
+        expect(owner.body.ownerId).toBe(me.id)
+
+        const other = await api<RoomInfo>("GET", `/room/info?roomId=${roomId}`, { cookie: guest })
+        expect(other.body.isOwner).toBe(false)
+        expect(other.body.ownerId).toBe(me.id)
+    })
+
+    it("alone can destroy the room", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+
+        const refused = await api("DELETE", `/room?roomId=${roomId}`, { cookie: guest })
+        expect(refused.status).toBe(403)
+        expect(await store.getRoomMeta(roomId)).not.toBeNull()
+
+        await api("DELETE", `/room?roomId=${roomId}`, { cookie })
+        expect(await store.getRoomMeta(roomId)).toBeNull()
+    })
+
+    it("kicks a participant for good", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const bob = await participantOf(roomId, guest)
+        const recorder = recordEvents(roomId)
+
+        const kicked = await api("POST", `/room/kick?roomId=${roomId}`, { cookie, body: { participantId: bob.id } })
+        recorder.stop()
+        expect(kicked.status).toBe(200)
+        expect(recorder.events).toContainEqual(expect.objectContaining({ event: "chat.kicked", data: { id: bob.id } }))
+
+        // Their token no longer works, and the proxy won't seat it again
+        expect((await api("GET", `/messages?roomId=${roomId}`, { cookie: guest })).status).toBe(401)
+        expect((await visit(`/room/${roomId}`, guest)).headers.get("location")).toBe("http://localhost/?error=kicked")
+        expect(await store.countMembers(roomId)).toBe(1)
+    })
+
+    it("is the only one who can kick", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 3 })
+        const guest = await joinAs(roomId, "bob")
+        const alice = await participantOf(roomId, cookie)
+
+        const refused = await api("POST", `/room/kick?roomId=${roomId}`, { cookie: guest, body: { participantId: alice.id } })
+        expect(refused.status).toBe(403)
+        expect(await store.countMembers(roomId)).toBe(2)
+
+        const self = await api("POST", `/room/kick?roomId=${roomId}`, { cookie, body: { participantId: alice.id } })
+        expect(self.status).toBe(400)
+    })
+
+    it("locks the room against newcomers but not against returning members", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 5 })
+        const guest = await joinAs(roomId, "bob")
+
+        expect((await api("POST", `/room/lock?roomId=${roomId}`, { cookie: guest, body: { locked: true } })).status).toBe(403)
+        const locked = await api("POST", `/room/lock?roomId=${roomId}`, { cookie, body: { locked: true } })
+        expect(locked.body).toEqual({ locked: true })
+
+        expect((await visit(`/room/${roomId}?invite=${await invite(roomId)}`)).headers.get("location")).toBe("http://localhost/?error=room-locked")
+        expect((await visit(`/room/${roomId}`, guest)).headers.get("x-middleware-next")).toBe("1")
+
+        await api("POST", `/room/lock?roomId=${roomId}`, { cookie, body: { locked: false } })
+        expect((await visit(`/room/${roomId}?invite=${await invite(roomId)}`)).headers.get("location")).toBe(`http://localhost/room/${roomId}`)
+    })
+})
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { roomTokenCookie } from "@/lib/room"
+import { JOIN_ATTEMPTS } from "@/lib/room-limits"
+import { store } from "@/lib/storage"
+import { api, invite, tokenCookieFrom, visit } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+const createProtectedRoom = async (passphrase = "correct horse") => {
+    const res = await api<{ roomId: string }>("POST", "/room/create", { body: { passphrase } })
+    return res.body.roomId
+}
+
+// POST /room/join with a fresh invite, and the cookie header it handed out if any
+const joinWith = async (roomId: string, passphrase: string, cookie?: string) => {
+    const res = await api("POST", "/room/join", { body: { roomId, passphrase, invite: await invite(roomId) }, cookie })
+    return { ...res, cookie: tokenCookieFrom(res.headers, roomId) }
+}
+
+describe("passphrase-protected rooms", () => {
+    it("only keeps a salted hash of the passphrase", async () => {
+        const roomId = await createProtectedRoom("correct horse")
+        const meta = await store.getRoomMeta(roomId)
+        expect(meta?.passphraseHash).toStartWith("scrypt$")
+        expect(meta?.passphraseHash).not.toContain("correct horse")
+    })
+
+    it("sends visitors to the join screen instead of handing out a seat", async () => {
+        const roomId = await createProtectedRoom()
+        const code = await invite(roomId)
+        const res = await visit(`/room/${roomId}?invite=${code}`)
+        expect(res.headers.get("location")).toBe(`http://localhost/room/${roomId}/join?invite=${code}`)
+        expect(res.cookies.get(roomTokenCookie(roomId))).toBeUndefined()
+
+        const joinScreen = await visit(`/room/${roomId}/join`)
+        expect(joinScreen.headers.get("x-middleware-next")).toBe("1")
+    })
+
+    it("doesn't let a made-up cookie in", async () => {
+        const roomId = await createProtectedRoom()
+        const code = await invite(roomId)
+        const res = await visit(`/room/${roomId}?invite=${code}`, `${roomTokenCookie(roomId)}=made-up`)
+        expect(res.headers.get("location")).toBe(`http://localhost/room/${roomId}/join?invite=${code}`)
+        expect(await store.countMembers(roomId)).toBe(0)
+    })
+
+    it("issues a seat for the right passphrase", async () => {
+        const roomId = await createProtectedRoom("correct horse")
+        const res = await joinWith(roomId, "correct horse")
+        expect(res.status).toBe(200)
+        expect(res.cookie).toBeTruthy()
+
+        // The proxy lets the admitted token back in from now on
+        const visited = await visit(`/room/${roomId}`, res.cookie)
+        expect(visited.headers.get("x-middleware-next")).toBe("1")
+        const info = await api<{ participants: number }>("GET", `/room/info?roomId=${roomId}`, { cookie: res.cookie })
+        expect(info.body.participants).toBe(1)
+    })
+
+    it("rejects a wrong passphrase without a seat", async () => {
+        const roomId = await createProtectedRoom("correct horse")
+        const res = await joinWith(roomId, "battery staple")
+        expect(res.status).toBe(403)
+        expect(res.cookie).toBeUndefined()
+        expect(await store.countMembers(roomId)).toBe(0)
+    })
+
+    it("locks the room after too many wrong passphrases", async () => {
+        const roomId = await createProtectedRoom("correct horse")
+        const start = Date.now()
+        setSystemTime(start)
+
+        for (let i = 1; i < JOIN_ATTEMPTS.max; i++) {
+            expect((await joinWith(roomId, `guess ${i}`)).status).toBe(403)
+        }
+        const locked = await joinWith(roomId, "one guess too many")
+        expect(locked.status).toBe(429)
+        expect(Number(locked.headers.get("retry-after"))).toBe(JOIN_ATTEMPTS.lockoutMs / 1000)
+
+        // Even the right passphrase waits out the lockout
+        expect((await joinWith(roomId, "correct horse")).status).toBe(429)
+
+        setSystemTime(start + JOIN_ATTEMPTS.lockoutMs + 1)
+        expect((await joinWith(roomId, "correct horse")).status).toBe(200)
+    })
+
+    it("leaves rooms without a passphrase open to anyone with the link", async () => {
+        const res = await api<{ roomId: string }>("POST", "/room/create", { body: {} })
+        const roomId = res.body.roomId
+
+        expect((await joinWith(roomId, "anything")).status).toBe(400)
+        expect((await visit(`/room/${roomId}/join`)).headers.get("location")).toBe(`http://localhost/room/${roomId}`)
+    })
+})
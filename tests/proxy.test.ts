@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { roomTokenCookie } from "@/lib/room"
+import { SEAT_STALE_MS } from "@/lib/room-limits"
+import { store } from "@/lib/storage"
+import { createRoom, invite, join, visit } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+describe("join proxy", () => {
+    it("sends unknown rooms back home", async () => {
+        const res = await visit("/room/does-not-exist")
+        expect(res.status).toBe(307)
+        expect(res.headers.get("location")).toBe("http://localhost/?error=room-not-found")
+    })
+
+    it("only handles the room page itself", async () => {
+        const roomId = await createRoom()
+        const res = await visit(`/room/${roomId}/extra`)
+        expect(res.headers.get("location")).toBe("http://localhost/")
+    })
+
+    it("gives a first visit a seat and a cookie that expires with the room", async () => {
+        const roomId = await createRoom({ ttlSeconds: 120 })
+        const res = await visit(`/room/${roomId}?invite=${await invite(roomId)}`)
+
+        // Back to the plain room address, without the used invite
+        expect(res.headers.get("location")).toBe(`http://localhost/room/${roomId}`)
+        const cookie = res.cookies.get(roomTokenCookie(roomId))
+        expect(cookie?.value).toBeTruthy()
+        expect(cookie?.httpOnly).toBe(true)
+        expect(cookie?.path).toBe("/")
+        expect(cookie?.maxAge).toBeGreaterThan(115)
+        expect(cookie?.maxAge).toBeLessThanOrEqual(120)
+    })
+
+    it("lets a returning browser back in without a new cookie", async () => {
+        const roomId = await createRoom()
+        const cookie = await join(roomId)
+        const res = await visit(`/room/${roomId}`, cookie)
+
+        expect(res.headers.get("x-middleware-next")).toBe("1")
+        expect(res.cookies.get(roomTokenCookie(roomId))).toBeUndefined()
+    })
+
+    it("turns people away once the room is full", async () => {
+        const roomId = await createRoom({ maxParticipants: 2 })
+        await join(roomId)
+        const second = await join(roomId)
+
+        const code = await invite(roomId)
+        const res = await visit(`/room/${roomId}?invite=${code}`)
+        expect(res.headers.get("location")).toBe("http://localhost/?error=room-full")
+        // The invite wasn't used up by a visit that got no seat
+        expect(await store.getInvite(roomId, code)).not.toBeNull()
+
+        // Members already seated still get in
+        const again = await visit(`/room/${roomId}`, second)
+        expect(again.headers.get("x-middleware-next")).toBe("1")
+    })
+
+    it("reclaims seats whose heartbeat went stale", async () => {
+        const roomId = await createRoom({ maxParticipants: 2 })
+        await join(roomId)
+        await join(roomId)
+
+        setSystemTime(new Date(Date.now() + SEAT_STALE_MS + 1000))
+        const res = await visit(`/room/${roomId}?invite=${await invite(roomId)}`)
+        expect(res.cookies.get(roomTokenCookie(roomId))?.value).toBeTruthy()
+    })
+
+    it("treats an expired room as gone", async () => {
+        const roomId = await createRoom({ ttlSeconds: 60 })
+        setSystemTime(new Date(Date.now() + 61 * 1000))
+
+        const res = await visit(`/room/${roomId}`)
+        expect(res.headers.get("location")).toBe("http://localhost/?error=room-not-found")
+    })
+})
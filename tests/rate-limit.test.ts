@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { RATE_LIMITS } from "@/lib/room-limits"
+import { api, createRoom, encrypted, joinAs, type ErrorBody, type MessagesBody } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+describe("rate limiting", () => {
+    it("limits room creation per IP and says when to retry", async () => {
+        const ip = "203.0.113.1"
+        for (let i = 0; i < RATE_LIMITS.createRoom.perIp; i++) {
+            const res = await api("POST", "/room/create", { body: {}, ip })
+            expect(res.status).toBe(200)
+        }
+
+        const limited = await api<ErrorBody>("POST", "/room/create", { body: {}, ip })
+        expect(limited.status).toBe(429)
+        expect(limited.body.error).toBe("Too many requests")
+        expect(Number(limited.headers.get("retry-after"))).toBeGreaterThan(0)
+        expect(Number(limited.headers.get("retry-after"))).toBeLessThanOrEqual(RATE_LIMITS.createRoom.windowMs / 1000)
+
+        // Someone else behind another address is unaffected
+        const other = await api("POST", "/room/create", { body: {}, ip: "203.0.113.2" })
+        expect(other.status).toBe(200)
+    })
+
+    it("ignores addresses a client adds to X-Forwarded-For itself", async () => {
+        // The proxy appends the address it saw - everything before it came from the client
+        const spoofed = (i: number) => `198.51.100.${i}, 203.0.113.3`
+        for (let i = 0; i < RATE_LIMITS.createRoom.perIp; i++) {
+            expect((await api("POST", "/room/create", { body: {}, ip: spoofed(i) })).status).toBe(200)
+        }
+        expect((await api("POST", "/room/create", { body: {}, ip: spoofed(99) })).status).toBe(429)
+    })
+
+    it("limits messages per token even across addresses", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const send = () => api("POST", `/messages?roomId=${roomId}`, { cookie, body: encrypted() })
+
+        for (let i = 0; i < RATE_LIMITS.sendMessage.perToken; i++) {
+            expect((await send()).status).toBe(200)
+        }
+        const limited = await send()
+        expect(limited.status).toBe(429)
+
+        const history = await api<MessagesBody>("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(history.body.messages).toHaveLength(RATE_LIMITS.sendMessage.perToken)
+    })
+
+    it("lets requests through again once the window has passed", async () => {
+        const roomId = await createRoom()
+        const cookie = await joinAs(roomId, "alice")
+        const send = () => api("POST", `/messages?roomId=${roomId}`, { cookie, body: encrypted() })
+
+        const start = Date.now()
+        setSystemTime(start)
+        for (let i = 0; i < RATE_LIMITS.sendMessage.perToken; i++) {
+            await send()
+        }
+        expect((await send()).status).toBe(429)
+
+        setSystemTime(start + RATE_LIMITS.sendMessage.windowMs + 1)
+        expect((await send()).status).toBe(200)
+    })
+})
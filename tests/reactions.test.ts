@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test"
+import { store } from "@/lib/storage"
+import type { Reaction } from "@/lib/realtime"
+import { api, createOwnedRoom, encrypted, join, joinAs, recordEvents, type MessageBody, type MessagesBody } from "./helpers"
+
+const send = async (roomId: string, cookie: string, extra: object = {}) => {
+    return api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: { ...encrypted(), ...extra } })
+}
+
+const react = (roomId: string, cookie: string, messageId: string, emoji: string, reacted = true) => {
+    return api("POST", `/messages/${messageId}/reactions?roomId=${roomId}`, { cookie, body: { emoji, reacted } })
+}
+
+describe("replies", () => {
+    it("remember the message they answer", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const original = await send(roomId, cookie)
+
+        const reply = await send(roomId, guest, { replyTo: original.body.message.id })
+        expect(reply.status).toBe(200)
+        expect(reply.body.message.replyTo).toBe(original.body.message.id)
+
+        const listed = await api<MessagesBody>("GET", `/messages?roomId=${roomId}`, { cookie })
+        expect(listed.body.messages.at(-1)?.replyTo).toBe(original.body.message.id)
+    })
+
+    it("can't answer a message that doesn't exist", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        expect((await send(roomId, cookie, { replyTo: "missing" })).status).toBe(400)
+    })
+})
+
+describe("reactions", () => {
+    it("are announced once per participant and emoji", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const { body } = await send(roomId, cookie)
+        const recorder = recordEvents(roomId)
+
+        expect((await react(roomId, guest, body.message.id, "🔥")).status).toBe(200)
+        expect((await react(roomId, guest, body.message.id, "🔥")).status).toBe(200)
+        await react(roomId, cookie, body.message.id, "🔥")
+        recorder.stop()
+
+        const reactions = recorder.events.filter((event) => event.event === "chat.reaction")
+        expect(reactions).toHaveLength(2)
+        expect(reactions[0].data).toMatchObject({ messageId: body.message.id, emoji: "🔥", reacted: true })
+
+        const listed = await api<{ reactions: Reaction[] }>("GET", `/messages/reactions?roomId=${roomId}`, { cookie })
+        expect(listed.body.reactions).toHaveLength(2)
+    })
+
+    it("can be taken back", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const { body } = await send(roomId, cookie)
+        await react(roomId, cookie, body.message.id, "👍")
+
+        const recorder = recordEvents(roomId)
+        await react(roomId, cookie, body.message.id, "👍", false)
+        await react(roomId, cookie, body.message.id, "👍", false)
+        recorder.stop()
+
+        expect(recorder.events.map((event) => event.data)).toEqual([expect.objectContaining({ emoji: "👍", reacted: false })])
+        expect(await store.listReactions(roomId)).toEqual([])
+    })
+
+    it("only accept the fixed set of emoji from people with a name", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const nameless = await join(roomId)
+        const { body } = await send(roomId, cookie)
+
+        expect((await react(roomId, cookie, body.message.id, "🍕")).status).toBe(422)
+        expect((await react(roomId, nameless, body.message.id, "👍")).status).toBe(403)
+        expect((await react(roomId, cookie, "missing", "👍")).status).toBe(404)
+    })
+
+    it("go away when their message is unsent", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const { body } = await send(roomId, cookie)
+        await react(roomId, guest, body.message.id, "😂")
+
+        await api("DELETE", `/messages/${body.message.id}?roomId=${roomId}`, { cookie, body: {} })
+        expect(await store.listReactions(roomId)).toEqual([])
+        expect((await react(roomId, guest, body.message.id, "😂")).status).toBe(404)
+    })
+})
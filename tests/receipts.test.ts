@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test"
+import { store } from "@/lib/storage"
+import type { Receipt } from "@/lib/realtime"
+import { api, createOwnedRoom, encrypted, join, joinAs, participantOf, recordEvents, type MessageBody } from "./helpers"
+
+const send = async (roomId: string, cookie: string) => {
+    const { body } = await api<MessageBody>("POST", `/messages?roomId=${roomId}`, { cookie, body: encrypted() })
+    return body.message
+}
+
+const ack = (roomId: string, cookie: string, messageId: string, state: "delivered" | "read") => {
+    return api("POST", `/messages/read?roomId=${roomId}`, { cookie, body: { messageId, state } })
+}
+
+const receiptsIn = async (roomId: string, cookie: string) => {
+    const { body } = await api<{ receipts: Receipt[] }>("GET", `/messages/read?roomId=${roomId}`, { cookie })
+    return body.receipts
+}
+
+describe("read receipts", () => {
+    it("are announced and listed for everyone in the room", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const bobId = (await participantOf(roomId, guest)).id
+        const message = await send(roomId, cookie)
+        const recorder = recordEvents(roomId)
+
+        expect((await ack(roomId, guest, message.id, "delivered")).status).toBe(200)
+        expect((await ack(roomId, guest, message.id, "read")).status).toBe(200)
+        recorder.stop()
+
+        expect(recorder.events.filter((event) => event.event === "chat.read").map((event) => event.data)).toEqual([
+            { participantId: bobId, deliveredSeq: message.seq, readSeq: 0 },
+            { participantId: bobId, deliveredSeq: message.seq, readSeq: message.seq, readMessageId: message.id },
+        ])
+        expect(await receiptsIn(roomId, cookie)).toEqual([
+            { participantId: bobId, deliveredSeq: message.seq, readSeq: message.seq, readMessageId: message.id },
+        ])
+    })
+
+    it("only ever move forward, and stay quiet when nothing changed", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        const older = await send(roomId, cookie)
+        const newer = await send(roomId, cookie)
+        await ack(roomId, guest, newer.id, "read")
+
+        const recorder = recordEvents(roomId)
+        await ack(roomId, guest, older.id, "read")
+        await ack(roomId, guest, older.id, "delivered")
+        await ack(roomId, guest, newer.id, "read")
+        recorder.stop()
+
+        expect(recorder.events).toEqual([])
+        expect(await receiptsIn(roomId, cookie)).toEqual([expect.objectContaining({ deliveredSeq: newer.seq, readSeq: newer.seq })])
+    })
+
+    it("need a name and a message that still exists", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const nameless = await join(roomId)
+        const message = await send(roomId, cookie)
+
+        expect((await ack(roomId, nameless, message.id, "read")).status).toBe(404)
+        expect((await ack(roomId, cookie, "missing", "read")).status).toBe(404)
+        expect(await store.listReceipts(roomId)).toEqual([])
+    })
+
+    it("go away with the room", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice")
+        const guest = await joinAs(roomId, "bob")
+        await ack(roomId, guest, (await send(roomId, cookie)).id, "read")
+        expect(await store.listReceipts(roomId)).toHaveLength(1)
+
+        await api("DELETE", `/room?roomId=${roomId}`, { cookie })
+        expect(await store.listReceipts(roomId)).toEqual([])
+    })
+})
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, setSystemTime } from "bun:test"
+import { participantColors } from "@/lib/participant-colors"
+import type { Participant } from "@/lib/realtime"
+import { ROOM_PARTICIPANTS, SEAT_STALE_MS } from "@/lib/room-limits"
+import { api, createOwnedRoom, join, joinAs, participantOf, recordEvents } from "./helpers"
+
+afterEach(() => {
+    setSystemTime()
+})
+
+describe("roster", () => {
+    it("announces each participant once, when they pick a name", async () => {
+        const { roomId } = await createOwnedRoom("alice", { maxParticipants: 4 })
+        const recorder = recordEvents(roomId)
+
+        const guest = await joinAs(roomId, "bob")
+        await api("POST", `/room/identity?roomId=${roomId}`, { cookie: guest, body: { name: "robert" } })
+        recorder.stop()
+
+        const joins = recorder.events.filter((event) => event.event === "chat.join")
+        expect(joins).toHaveLength(1)
+        expect(joins[0].data).toEqual(await participantOf(roomId, guest))
+    })
+
+    it("announces people leaving, or being kicked", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 4 })
+        const bob = await joinAs(roomId, "bob")
+        const carol = await joinAs(roomId, "carol")
+        const [bobId, carolId] = [(await participantOf(roomId, bob)).id, (await participantOf(roomId, carol)).id]
+        const recorder = recordEvents(roomId)
+
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: bob })
+        await api("POST", `/room/kick?roomId=${roomId}`, { cookie, body: { participantId: carolId } })
+        recorder.stop()
+
+        const leaves = recorder.events.filter((event) => event.event === "chat.leave").map((event) => event.data)
+        expect(leaves).toEqual([{ id: bobId, reason: "left" }, { id: carolId, reason: "kicked" }])
+    })
+
+    it("stays quiet about seats without a name, and about leaving twice", async () => {
+        const { roomId } = await createOwnedRoom("alice", { maxParticipants: 4 })
+        const nameless = await join(roomId)
+        const guest = await joinAs(roomId, "bob")
+        const recorder = recordEvents(roomId)
+
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: nameless })
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: guest })
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: guest })
+        recorder.stop()
+
+        expect(recorder.events.filter((event) => event.event === "chat.leave")).toHaveLength(1)
+    })
+
+    it("announces people whose stale seat went to someone else", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 2 })
+        const bob = await joinAs(roomId, "bob")
+        const bobId = (await participantOf(roomId, bob)).id
+
+        setSystemTime(Date.now() + SEAT_STALE_MS + 1)
+        await api("POST", `/room/heartbeat?roomId=${roomId}`, { cookie, body: { status: "online" } })
+        const recorder = recordEvents(roomId)
+        await joinAs(roomId, "carol")
+        recorder.stop()
+
+        const leaves = recorder.events.filter((event) => event.event === "chat.leave").map((event) => event.data)
+        expect(leaves).toEqual([{ id: bobId, reason: "timeout" }])
+    })
+})
+
+describe("participant colours", () => {
+    const colorsIn = async (roomId: string, cookie: string) => {
+        const res = await api<{ participants: Participant[] }>("GET", `/room/participants?roomId=${roomId}`, { cookie })
+        return Object.fromEntries(res.body.participants.map((participant) => [participant.name, participant.color]))
+    }
+
+    it("gives everyone in a full room their own colour", async () => {
+        const { roomId, cookie } = await createOwnedRoom("p0", { maxParticipants: ROOM_PARTICIPANTS.max })
+        for (let i = 1; i < ROOM_PARTICIPANTS.max; i++) await joinAs(roomId, `p${i}`)
+
+        const colors = Object.values(await colorsIn(roomId, cookie))
+        expect(new Set(colors).size).toBe(ROOM_PARTICIPANTS.max)
+        expect(Math.max(...colors)).toBe(ROOM_PARTICIPANTS.max - 1)
+    })
+
+    it("hands a colour on once whoever had it has left, and never changes anyone else's", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 4 })
+        const bob = await joinAs(roomId, "bob")
+        await joinAs(roomId, "carol")
+        const before = await colorsIn(roomId, cookie)
+
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: bob })
+        await joinAs(roomId, "dave")
+        const after = await colorsIn(roomId, cookie)
+
+        expect(after.dave).toBe(before.bob)
+        expect([after.alice, after.carol]).toEqual([before.alice, before.carol])
+    })
+
+    it("gives someone coming back a free colour if a newcomer got theirs meanwhile", async () => {
+        const { roomId, cookie } = await createOwnedRoom("alice", { maxParticipants: 4 })
+        const bob = await joinAs(roomId, "bob")
+        await api("POST", `/room/leave?roomId=${roomId}`, { cookie: bob })
+        await joinAs(roomId, "dave")
+        const before = await colorsIn(roomId, cookie)
+
+        const recorder = recordEvents(roomId)
+        await join(roomId, bob)
+        recorder.stop()
+        const after = await colorsIn(roomId, cookie)
+
+        expect(new Set([after.alice, after.bob, after.dave]).size).toBe(3)
+        expect([after.alice, after.dave]).toEqual([before.alice, before.dave])
+        expect(recorder.events.filter((event) => event.event === "chat.join").map((event) => event.data))
+            .toEqual([expect.objectContaining({ name: "bob", color: after.bob })])
+    })
+
+    it("shows the colour the server handed out, and keeps one for ids it doesn't know yet", () => {
+        const first = participantColors([{ id: "p0", name: "p0", joinedAt: 1000, color: 3 }])
+        const second = participantColors([{ id: "p1", name: "p1", joinedAt: 2000, color: 3 }])
+
+        expect(first("p0")).toEqual(second("p1"))
+        expect(participantColors([])("newcomer")).toEqual(first("newcomer"))
+    })
+})
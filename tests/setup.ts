@@ -0,0 +1,4 @@
+// The suite runs offline - rooms live in memory and realtime events stay in this process.
+// Both are read when the modules load, so they have to be set before any test imports them.
+process.env.STORAGE_BACKEND = "memory"
+process.env.NEXT_PUBLIC_REALTIME_TRANSPORT = "local"